@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  BlePlxTransport,
+  BluetoothReadiness,
+  BluetoothReadinessService,
+  createLogger,
+  NativeBluetoothPermissions,
+  RecoveryAction
+} from '@/src/contoller';
+
+const log = createLogger('core');
+
+let bleTransport: BlePlxTransport | null = null;
+let bluetoothReadiness: BluetoothReadinessService | null = null;
+
+/**
+ * The one Bluetooth transport of the app, so every screen sees the same state and the
+ * glasses manager scans on the transport that was checked. Created on first use, so
+ * importing this module does not start a BleManager.
+ */
+export function getBleTransport(): BlePlxTransport {
+  bleTransport ??= new BlePlxTransport();
+  return bleTransport;
+}
+
+/** The readiness service for getBleTransport(), shared the same way. */
+export function getBluetoothReadiness(): BluetoothReadinessService {
+  bluetoothReadiness ??= new BluetoothReadinessService(getBleTransport(), new NativeBluetoothPermissions());
+  return bluetoothReadiness;
+}
+
+/**
+ * Current Bluetooth readiness, kept up to date while the screen is mounted, and a
+ * way to run the recovery actions it offers (request permission, open settings, retry).
+ */
+export function useBluetoothReadiness(service: BluetoothReadinessService = getBluetoothReadiness()) {
+  const [readiness, setReadiness] = useState<BluetoothReadiness>(service.current);
+
+  useEffect(() => {
+    const unsubscribe = service.onChange(setReadiness);
+    service.refresh().catch(error => log.error('Bluetooth readiness check failed:', error));
+    return unsubscribe;
+  }, [service]);
+
+  const perform = useCallback((action: RecoveryAction) => service.perform(action), [service]);
+
+  return { readiness, perform };
+}
@@ -0,0 +1,111 @@
+import { ThemedText } from '@/components/ThemedText';
+import { Button } from '@/components/ui/button';
+
+import React, { useEffect, useState } from 'react';
+import { View } from 'react-native';
+import {
+    consoleLogSink,
+    FileLogSink,
+    formatLogEntry,
+    LOG_LEVELS,
+    LOG_TAGS,
+    LogEntry,
+    logging,
+    LogLevel,
+    LogSink,
+    LogTag,
+    MemoryLogSink
+} from '../contoller';
+
+interface DeveloperSettingsProps {
+    recentLogs: MemoryLogSink;
+    logFile: FileLogSink;
+    onClose: () => void;
+}
+
+const MAX_VISIBLE = 100;
+
+// Global level: debug -> info -> warn -> error -> silent -> debug
+const nextLevel = (level: LogLevel): LogLevel =>
+    LOG_LEVELS[(LOG_LEVELS.indexOf(level) + 1) % LOG_LEVELS.length];
+
+// Per tag the cycle also passes through "default", which follows the global level
+const nextTagLevel = (level: LogLevel | null): LogLevel | null =>
+    level === null ? LOG_LEVELS[0] : level === LOG_LEVELS[LOG_LEVELS.length - 1] ? null : nextLevel(level);
+
+const DeveloperSettings: React.FC<DeveloperSettingsProps> = ({ recentLogs, logFile, onClose }) => {
+    const [, setRevision] = useState(0);
+    const [logCount, setLogCount] = useState(recentLogs.count);
+    const [entries, setEntries] = useState<LogEntry[]>([]);
+
+    // Re-render when levels or sinks change, and poll for new entries
+    useEffect(() => {
+        const unsubscribe = logging.onChange(() => setRevision(revision => revision + 1));
+        const interval = setInterval(() => setLogCount(recentLogs.count), 500);
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+        };
+    }, [recentLogs]);
+
+    useEffect(() => {
+        setEntries(recentLogs.entries().slice(-MAX_VISIBLE).reverse());
+    }, [recentLogs, logCount]);
+
+    const toggleSink = (sink: LogSink) => {
+        if (logging.hasSink(sink)) {
+            logging.removeSink(sink);
+        } else {
+            logging.addSink(sink);
+        }
+    };
+
+    const clearLogs = async () => {
+        recentLogs.clear();
+        setEntries([]);
+        try {
+            await logFile.clear();
+        } catch (error) {
+            console.error('Failed to clear log file:', error);
+        }
+    };
+
+    return (
+        <View style={{ padding: 16 }}>
+            <ThemedText type="subtitle">Developer settings</ThemedText>
+
+            <ThemedText type="defaultSemiBold">Log level</ThemedText>
+            <Button onPress={() => { logging.level = nextLevel(logging.level); }} title={`All: ${logging.level}`} />
+            {LOG_TAGS.map((tag: LogTag) => (
+                <Button
+                    key={tag}
+                    variant="secondary"
+                    onPress={() => logging.setTagLevel(tag, nextTagLevel(logging.tagLevel(tag)))}
+                    title={`${tag}: ${logging.tagLevel(tag) ?? `default (${logging.level})`}`}
+                />
+            ))}
+
+            <ThemedText type="defaultSemiBold">Log output</ThemedText>
+            <Button
+                onPress={() => toggleSink(consoleLogSink)}
+                title={logging.hasSink(consoleLogSink) ? 'Console: on' : 'Console: off'}
+            />
+            <Button
+                onPress={() => toggleSink(logFile)}
+                title={logging.hasSink(logFile) ? 'Log file: on' : 'Log file: off'}
+            />
+            <ThemedText>Log file: {logFile.path}</ThemedText>
+            <Button onPress={clearLogs} title="Clear logs" variant="secondary" />
+            <Button onPress={onClose} title="Close" variant="secondary" />
+
+            <ThemedText type="defaultSemiBold">Recent log entries</ThemedText>
+            {entries.map((entry, index) => (
+                <ThemedText key={`${entry.timestamp}-${index}`} style={{ fontFamily: 'monospace', fontSize: 12 }}>
+                    {formatLogEntry(entry)}
+                </ThemedText>
+            ))}
+        </View>
+    );
+};
+
+export default DeveloperSettings;
@@ -0,0 +1,62 @@
+import { ThemedText } from '@/components/ThemedText';
+import { Button } from '@/components/ui/button';
+
+import React from 'react';
+import { View } from 'react-native';
+import { ArmSide, G1ArmIdentity, G1DeviceInfo } from '../contoller';
+
+interface DeviceDetailsProps {
+    info: G1DeviceInfo | null;
+    onRefresh: () => void;
+    onClose: () => void;
+}
+
+const SHAPE_LABELS = {
+    round: 'Round',
+    square: 'Square',
+    unknown: 'Unknown',
+};
+
+// Everything support asks for first: model, frame, serial and firmware of both arms
+const DeviceDetails: React.FC<DeviceDetailsProps> = ({ info, onRefresh, onClose }) => {
+    const renderArm = (side: ArmSide, arm: G1ArmIdentity | null) => (
+        <View key={side} style={{ marginTop: 8 }}>
+            <ThemedText type="defaultSemiBold">{side === 'left' ? 'Left arm' : 'Right arm'}</ThemedText>
+            {arm ? (
+                <>
+                    <ThemedText>Name: {arm.name ?? '-'}</ThemedText>
+                    <ThemedText>Arm ID: {arm.armId ?? '-'}</ThemedText>
+                    <ThemedText>Device ID: {arm.deviceId}</ThemedText>
+                    <ThemedText>Firmware: {arm.firmware?.version ?? '-'}</ThemedText>
+                    {arm.firmware?.buildTime && <ThemedText>Built: {arm.firmware.buildTime}</ThemedText>}
+                </>
+            ) : (
+                <ThemedText>Not connected</ThemedText>
+            )}
+        </View>
+    );
+
+    return (
+        <View style={{ padding: 16 }}>
+            <ThemedText type="subtitle">Device details</ThemedText>
+            {info ? (
+                <>
+                    <ThemedText>Model: {info.model === 'unknown' ? 'Unknown' : `Even ${info.model}`}</ThemedText>
+                    <ThemedText>Frame: {SHAPE_LABELS[info.shape]}, {info.color}</ThemedText>
+                    <ThemedText>Serial: {info.serial}</ThemedText>
+                    <ThemedText>Batch: {info.batch ?? '-'}</ThemedText>
+                    <ThemedText>Pair channel: {info.channel ?? '-'}</ThemedText>
+                    <ThemedText>Firmware: {info.firmwareVersion ?? '-'}</ThemedText>
+                    {renderArm('left', info.arms.left)}
+                    {renderArm('right', info.arms.right)}
+                </>
+            ) : (
+                <ThemedText>No device information yet</ThemedText>
+            )}
+            <Button onPress={onRefresh} title="Refresh" />
+            <Button onPress={onClose} title="Close" variant="secondary" />
+        </View>
+    );
+};
+
+export default DeviceDetails;
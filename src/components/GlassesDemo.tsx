@@ -1,24 +1,25 @@
 import React, { useEffect, useState } from 'react';
 import { Alert, Button, ScrollView, StyleSheet, Text, View } from 'react-native';
-import { AudioPacket, BMPImageData, GlassesDeviceInfo, SmartGlassesController, TouchBarEvent } from "../contoller/glasses";
+import { getBleTransport } from '@/hooks/useBluetoothReadiness';
+import { AudioPacket, BMPImageData, EvenRealitiesG1Manager, GlassesPair, isG1Error, TouchBarEvent } from "../contoller";
 
 const GlassesDemo: React.FC = () => {
-  const [glassesController, setGlassesController] = useState<SmartGlassesController | null>(null);
-  const [devices, setDevices] = useState<GlassesDeviceInfo[]>([]);
+  const [glassesController, setGlassesController] = useState<EvenRealitiesG1Manager | null>(null);
+  const [pairs, setPairs] = useState<GlassesPair[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
   const [isScanning, setIsScanning] = useState(false);
 
   useEffect(() => {
     try {
-      const controller = new SmartGlassesController();
+      const controller = new EvenRealitiesG1Manager(getBleTransport());
       setGlassesController(controller);
       addLog('Smart Glasses Controller initialized successfully');
     } catch (error: any) {
       addLog(`Failed to initialize Smart Glasses Controller: ${error.message}`);
       Alert.alert(
         'Initialization Error',
-        'Failed to initialize Smart Glasses Controller. Please make sure you have the necessary permissions and are running on an iOS device. ' + error.message
+        'Failed to initialize Smart Glasses Controller. Please make sure you have the necessary permissions. ' + error.message
       );
     }
   }, []);
@@ -31,21 +32,21 @@ const GlassesDemo: React.FC = () => {
     if (!glassesController) return;
 
     // Setup event listeners
-    glassesController.onTouchBar((event: TouchBarEvent) => {
+    glassesController.ai.onTouchBar((event: TouchBarEvent) => {
       addLog(`TouchBar Event: ${event.type} on ${event.side} side`);
     });
 
-    glassesController.onAudioData((data: AudioPacket) => {
+    glassesController.ai.onAudioData((data: AudioPacket) => {
       addLog(`Received audio data packet #${data.sequence}`);
     });
 
-    glassesController.onConnectionChange((connected: boolean) => {
-      setIsConnected(connected);
-      addLog(`Connection status changed: ${connected ? 'Connected' : 'Disconnected'}`);
+    glassesController.onConnectionStateChange((state) => {
+      setIsConnected(glassesController.connected);
+      addLog(`Connection status changed: ${state.status}`);
     });
 
     return () => {
-      glassesController.removeAllListeners();
+      glassesController.disconnect();
     };
   }, [glassesController]);
 
@@ -63,23 +64,23 @@ const GlassesDemo: React.FC = () => {
     try {
       setIsScanning(true);
       addLog('Scanning for glasses...');
-      const foundDevices = await glassesController.scanForGlasses();
-      setDevices(foundDevices);
-      addLog(`Found ${foundDevices.length} devices`);
-      for (const device of foundDevices) {
-        addLog(`Device: ${device.name} - ${device.id}`);
+      const foundPairs = await glassesController.scanForGlasses();
+      setPairs(foundPairs);
+      addLog(`Found ${foundPairs.length} pairs`);
+      for (const pair of foundPairs) {
+        addLog(`G1 #${pair.channel}: ${pair.left.name} / ${pair.right.name}`);
       }
     } catch (error: any) {
-      if (error.message.includes('Bluetooth is powered off')) {
+      if (isG1Error(error, 'BluetoothOff')) {
         Alert.alert(
           'Bluetooth Required',
-          'Please turn on Bluetooth to scan for devices.',
+          error.message,
           [{ text: 'OK' }]
         );
-      } else if (error.message.includes('Bluetooth permission not granted')) {
+      } else if (isG1Error(error, 'PermissionDenied')) {
         Alert.alert(
           'Permission Required',
-          'Please grant Bluetooth permissions in your device settings.',
+          error.message,
           [{ text: 'OK' }]
         );
       } else {
@@ -96,28 +97,16 @@ const GlassesDemo: React.FC = () => {
       return;
     }
 
-    if (devices.length < 2) {
-      addLog('Need at least 2 devices to connect');
+    if (pairs.length === 0) {
+      addLog('Need both left and right arms of a pair to connect');
       return;
     }
 
     try {
       addLog('Connecting to glasses...');
-      const leftDevice = devices.find(device => device.name?.includes('_L_'));
-      const rightDevice = devices.find(device => device.name?.includes('_R_'));
-      
-      if (!leftDevice || !rightDevice) {
-        addLog('Need both left and right devices to connect');
-        return;
-      }
-
-      const success = await glassesController.connectToGlasses(leftDevice.id, rightDevice.id);
-      if (success) {
-        setIsConnected(true);
-        addLog('Successfully connected to glasses');
-      } else {
-        addLog('Failed to connect to glasses');
-      }
+      await glassesController.connectToGlasses(pairs[0]);
+      setIsConnected(true);
+      addLog('Successfully connected to glasses');
     } catch (error: any) {
       addLog(`Error connecting: ${error.message}`);
     }
@@ -146,12 +135,8 @@ const GlassesDemo: React.FC = () => {
 
     try {
       addLog('Starting Even AI...');
-      const success = await glassesController.startEvenAI();
-      if (success) {
-        addLog('Even AI started successfully');
-      } else {
-        addLog('Failed to start Even AI');
-      }
+      await glassesController.ai.startEvenAI();
+      addLog('Even AI started successfully');
     } catch (error: any) {
       addLog(`Error starting Even AI: ${error.message}`);
     }
@@ -165,7 +150,7 @@ const GlassesDemo: React.FC = () => {
 
     try {
       addLog('Stopping Even AI...');
-      await glassesController.stopEvenAI();
+      await glassesController.ai.stopEvenAI();
       addLog('Even AI stopped successfully');
     } catch (error: any) {
       addLog(`Error stopping Even AI: ${error.message}`);
@@ -181,12 +166,8 @@ const GlassesDemo: React.FC = () => {
     try {
       const testText = "Hello from the demo app! This is a test message to verify text transmission to the glasses.";
       addLog('Sending text...');
-      const success = await glassesController.sendText(testText);
-      if (success) {
-        addLog('Text sent successfully');
-      } else {
-        addLog('Failed to send text');
-      }
+      await glassesController.display.sendText(testText, 0, 0, false);
+      addLog('Text sent successfully');
     } catch (error: any) {
       addLog(`Error sending text: ${error.message}`);
     }
@@ -218,13 +199,8 @@ const GlassesDemo: React.FC = () => {
       };
 
       addLog('Sending test image...');
-      const success = await glassesController.sendBMPImage(bmpData);
-      
-      if (success) {
-        addLog('Image sent successfully');
-      } else {
-        addLog('Failed to send image');
-      }
+      const completed = await glassesController.display.sendBMPImage(bmpData);
+      addLog(completed ? 'Image sent successfully' : 'Image upload cancelled');
     } catch (error: any) {
       addLog(`Error sending image: ${error.message}`);
       console.error('Image send error:', error);
@@ -253,7 +229,7 @@ const GlassesDemo: React.FC = () => {
         <Button 
           title={isConnected ? "Disconnect" : "Connect"} 
           onPress={isConnected ? handleDisconnect : handleConnect}
-          disabled={devices.length < 2 || isScanning}
+          disabled={pairs.length === 0 || isScanning}
         />
       </View>
 
@@ -1,5 +1,6 @@
 import { ThemedText } from '@/components/ThemedText';
 import { Button } from '@/components/ui/button';
+import { getBleTransport, getBluetoothReadiness, useBluetoothReadiness } from '@/hooks/useBluetoothReadiness';
 import { Buffer } from 'buffer';
 
 import { Asset } from 'expo-asset';
@@ -9,7 +10,6 @@ import React, { useEffect, useRef, useState } from 'react';
 import {
     Alert,
     Image,
-    PermissionsAndroid, Platform,
     SafeAreaView,
     ScrollView,
     Text,
@@ -17,14 +17,60 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
-import { BatteryInfo, EvenRealitiesG1Manager, GlassesDeviceInfo, NotificationData } from '../contoller/glasses2';
+import {
+    ArmSide,
+    BatteryInfo,
+    describeDeviceEvent,
+    EvenRealitiesG1Manager,
+    FileKnownGlassesStorage,
+    FileLogSink,
+    G1ArmInfo,
+    G1ConnectionState,
+    G1DeviceInfo,
+    G1DeviceStatus,
+    GlassesPair,
+    INITIAL_DEVICE_STATUS,
+    isG1Error,
+    KnownGlassesStore,
+    KnownPair,
+    LinkHealth,
+    logging,
+    MemoryLogSink,
+    NotificationData,
+    RecoveryAction,
+    saveRecording,
+    ScanSession
+} from '../contoller';
+import DeveloperSettings from './DeveloperSettings';
+import DeviceDetails from './DeviceDetails';
+import TrafficViewer from './TrafficViewer';
 //'┐ └ ┴ ┬ ├ ─ ┼ ┘ ┌'
+
+// G1Errors carry a message the user can act on; anything else gets the generic fallback
+const errorMessage = (error: unknown, fallback: string) =>
+    isG1Error(error) ? error.message : fallback;
+
+// "good 92 (45 ms, -60 dBm)", or "-" before the first heartbeat
+const describeLinkHealth = (health: LinkHealth | null) =>
+    health && health.score !== null
+        ? `${health.quality} ${health.score} (${health.latencyMs ?? '-'} ms, ${health.rssi ?? '-'} dBm)`
+        : '-';
+
+const RECOVERY_ACTION_TITLES: Record<RecoveryAction, string> = {
+    requestPermission: 'Allow Bluetooth',
+    openAppSettings: 'Open app settings',
+    openBluetoothSettings: 'Open Bluetooth settings',
+    retry: 'Try again'
+};
+
 const G1GlassesApp: React.FC = () => {
     const [isScanning, setIsScanning] = useState(false);
     const [isConnected, setIsConnected] = useState(false);
-    const [devices, setDevices] = useState<GlassesDeviceInfo[]>([]);
-    const [selectedLeft, setSelectedLeft] = useState<string | null>(null);
-    const [selectedRight, setSelectedRight] = useState<string | null>(null);
+    const [connectionState, setConnectionState] = useState<G1ConnectionState>({ status: 'idle' });
+    const [pairs, setPairs] = useState<GlassesPair[]>([]);
+    const [selectedPair, setSelectedPair] = useState<GlassesPair | null>(null);
+    const [scannedArms, setScannedArms] = useState<G1ArmInfo[]>([]);
+    const [knownPairs, setKnownPairs] = useState<KnownPair[]>([]);
     const [batteryLeft, setBatteryLeft] = useState<BatteryInfo | null>(null);
     const [batteryRight, setBatteryRight] = useState<BatteryInfo | null>(null);
     const [textToSend, setTextToSend] = useState(
@@ -34,55 +80,63 @@ const G1GlassesApp: React.FC = () => {
         '│ asdasdasd│ asdasdasdasd│'
     );
     const [brightness, setBrightness] = useState(20);
+    const [deviceInfo, setDeviceInfo] = useState<G1DeviceInfo | null>(null);
+    const [showDeviceDetails, setShowDeviceDetails] = useState(false);
+    const [showTraffic, setShowTraffic] = useState(false);
+    const [showDeveloperSettings, setShowDeveloperSettings] = useState(false);
     const [events, setEvents] = useState<string[]>([]);
     const [x, setX] = useState(100);
     const [y, setY] = useState(100);
 
-    const [isGlassesWorn, setIsGlassesWorn] = useState(false);
-    const [isGlassesInBox, setIsGlassesInBox] = useState(false);
-    const [isGlassesCharging, setIsGlassesCharging] = useState(false);
-    const [isInCase, setIsInCase] = useState(false);
-    const [isInSilentMode, setIsInSilentMode] = useState(false);
-    const [isCaseOpen, setIsCaseOpen] = useState(false);
+    const [deviceStatus, setDeviceStatus] = useState<G1DeviceStatus>(INITIAL_DEVICE_STATUS);
+    const [linkHealth, setLinkHealth] = useState<Record<ArmSide, LinkHealth | null>>({ left: null, right: null });
 
     const g1Manager = useRef<EvenRealitiesG1Manager | null>(null);
+    const scanSession = useRef<ScanSession | null>(null);
+    const knownGlasses = useRef(new KnownGlassesStore(new FileKnownGlassesStorage()));
+    const recentLogs = useRef(new MemoryLogSink());
+    const logFile = useRef(new FileLogSink());
+    const initializing = useRef(false);
+    const { readiness, perform } = useBluetoothReadiness();
 
     useEffect(() => {
+        const logs = recentLogs.current;
+        logging.addSink(logs);
         initializeManager();
+
+        // Once the user has fixed what kept Bluetooth from being ready, pick up where startup stopped
+        const stopWatchingReadiness = getBluetoothReadiness().onChange(({ status }) => {
+            if (status === 'ready' && !g1Manager.current && !initializing.current) {
+                initializeManager();
+            }
+        });
         return () => {
-            cleanup();
+            stopWatchingReadiness();
+            cleanup().catch(error => console.error('Cleanup failed:', error));
+            logging.removeSink(logs);
         };
     }, []);
 
-    useEffect(() => {
-        if (g1Manager.current) {
-            setIsGlassesWorn(g1Manager.current.devices.isGlassesWorn);
-            setIsGlassesInBox(g1Manager.current.devices.isGlassesInBox);
-            setIsGlassesCharging(g1Manager.current.devices.isGlassesCharging);
-        }
-    }, [g1Manager.current]);
-
     const initializeManager = async () => {
+        initializing.current = true;
         try {
-            // Request permissions on Android
-            if (Platform.OS === 'android') {
-                await requestBluetoothPermissions();
-            }
+            // Prompts for the Bluetooth permissions the first time; the banner covers the rest
+            await getBluetoothReadiness().ensureReady();
 
-            g1Manager.current = new EvenRealitiesG1Manager();
+            g1Manager.current = new EvenRealitiesG1Manager(getBleTransport(), { knownGlasses: knownGlasses.current });
             await g1Manager.current.initialize();
-            console.log('Scanning for devices');
-            await scanForDevices();
-            console.log('Connecting to glasses');
-            await connectToGlasses();
 
             // Setup event listeners
             g1Manager.current.onDeviceEvent((event) => {
-                const eventStr = `Device Event: Type ${event.type} at ${new Date().toLocaleTimeString()}`;
+                const eventStr = `Device Event: ${describeDeviceEvent(event)} (${event.side}) at ${new Date().toLocaleTimeString()}`;
                 setEvents(prev => [eventStr, ...prev.slice(0, 9)]); // Keep last 10 events
             });
 
-            g1Manager.current.onBatteryUpdate((battery, isLeft) => {
+            g1Manager.current.onDeviceStatusChange((status) => {
+                setDeviceStatus(status);
+            });
+
+            g1Manager.current.settings.onBatteryUpdate((battery, isLeft) => {
                 if (isLeft) {
                     setBatteryLeft(battery);
                 } else {
@@ -90,80 +144,160 @@ const G1GlassesApp: React.FC = () => {
                 }
             });
 
+            g1Manager.current.ai.onAudioData((packet) => {
+                if (packet.sequence % 50 === 0) {
+                    console.log(`Audio packet #${packet.sequence}, ${g1Manager.current?.ai.audioBufferLength} buffered`);
+                }
+            });
+
+            g1Manager.current.onConnectionStateChange((state) => {
+                setConnectionState(state);
+                setIsConnected(g1Manager.current?.connected ?? false);
+            });
+
+            // Shown next to the battery so a slow screen update can be put down to the link
+            g1Manager.current.onLinkHealthChange((health) => {
+                setLinkHealth(prev => ({ ...prev, [health.side]: health }));
+            });
+
+            // The manager reads it after every connect and clears it on disconnect
+            g1Manager.current.onDeviceInfoChange(setDeviceInfo);
+
+            g1Manager.current.onConnectionEvent((event) => {
+                setIsConnected(g1Manager.current?.connected ?? false);
+                const eventStr = `Connection: ${event.type} (${event.side}) at ${new Date().toLocaleTimeString()}`;
+                setEvents(prev => [eventStr, ...prev.slice(0, 9)]);
+            });
+
+            // Go straight to remembered glasses; only scan when none of them is reachable
+            setKnownPairs(await knownGlasses.current.list());
+            const known = await g1Manager.current.connectToKnownGlasses();
+            if (known) {
+                console.log(`Reconnected to remembered glasses G1 #${known.channel}`);
+                await onConnected();
+            } else {
+                console.log('Scanning for devices');
+                const found = await scanForDevices();
+                if (found.length > 0) {
+                    console.log('Connecting to glasses');
+                    await connectToGlasses(found[0]);
+                }
+            }
+
             console.log('G1 Manager initialized successfully');
         } catch (error) {
             console.error('Failed to initialize G1 Manager:', error);
-            Alert.alert('Error', 'Failed to initialize Bluetooth manager');
+            if (!isG1Error(error, 'PermissionDenied') && !isG1Error(error, 'BluetoothOff')) {
+                Alert.alert('Error', errorMessage(error, 'Failed to initialize Bluetooth manager'));
+            }
+        } finally {
+            initializing.current = false;
         }
     };
 
-    const requestBluetoothPermissions = async () => {
+    const scanForDevices = async (): Promise<GlassesPair[]> => {
+        if (!g1Manager.current) return [];
+
+        setIsScanning(true);
+        setPairs([]);
+        setScannedArms([]);
+
         try {
-            const granted = await PermissionsAndroid.requestMultiple([
-                PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
-                PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
-                PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
-            ]);
+            // Arms and pairs show up as they are found; the scan ends at the first complete pair
+            scanSession.current = g1Manager.current.watchForGlasses((update) => {
+                if (update.type === 'pairComplete') {
+                    setPairs(prev => [...prev, update.pair]);
+                    setSelectedPair(prev => prev ?? update.pair);
+                } else {
+                    setScannedArms(prev => [...prev.filter(arm => arm.id !== update.arm.id), update.arm]);
+                }
+            }, { timeoutMs: 10000 });
 
-            const allGranted = Object.values(granted).every(
-                permission => permission === PermissionsAndroid.RESULTS.GRANTED
-            );
+            return await scanSession.current.finished;
+        } catch (error) {
+            console.error('Scan failed:', error);
+            Alert.alert('Scan Failed', errorMessage(error, 'Could not scan for glasses'));
+            return [];
+        } finally {
+            scanSession.current = null;
+            setIsScanning(false);
+        }
+    };
 
-            if (!allGranted) {
-                throw new Error('Bluetooth permissions not granted');
-            }
+    const stopScan = () => {
+        scanSession.current?.stop();
+    };
+
+    // Takes the pair explicitly so callers are not tied to a selectedPair update that has not rendered yet
+    const connectToGlasses = async (pair: GlassesPair | null = selectedPair) => {
+        if (!g1Manager.current || !pair) {
+            Alert.alert('Error', 'Please select a pair of glasses');
+            return;
+        }
+
+        try {
+            await g1Manager.current.connectToGlasses(pair);
+            await onConnected();
         } catch (error) {
-            console.error('Permission request failed:', error);
-            throw error;
+            console.error('Connection failed:', error);
+            Alert.alert('Connection Failed', errorMessage(error, 'Could not connect to glasses'));
         }
     };
 
-    const scanForDevices = async () => {
+    const connectToKnownPair = async (pair: KnownPair) => {
         if (!g1Manager.current) return;
 
-        setIsScanning(true);
-        setDevices([]);
+        try {
+            await g1Manager.current.connectToGlasses(pair.left.id, pair.right.id);
+            await onConnected();
+        } catch (error) {
+            Alert.alert('Connection Failed', errorMessage(error, `G1 #${pair.channel} is not reachable`));
+        }
+    };
 
+    const forgetKnownPair = async (pair: KnownPair) => {
         try {
-            const foundDevices = await g1Manager.current.scanForGlasses(10000);
-            setDevices(foundDevices);
+            await knownGlasses.current.forget(pair.id);
+            setKnownPairs(await knownGlasses.current.list());
+        } catch (error) {
+            console.error('Forget glasses failed:', error);
+            Alert.alert('Could not forget glasses', errorMessage(error, `Failed to forget G1 #${pair.channel}`));
+        }
+    };
+
+    // The manager reads serial and firmware by itself after connecting
+    const onConnected = async () => {
+        setIsConnected(true);
+        setKnownPairs(await knownGlasses.current.list());
 
-            // Auto-select left and right devices if found
-            const leftDevice = foundDevices.find(d => d.isLeft);
-            const rightDevice = foundDevices.find(d => d.isRight);
+        await readSettings();
+    };
+
+    // Reads battery and brightness back from the glasses
+    const readSettings = async () => {
+        if (!g1Manager.current) return;
 
-            if (leftDevice) setSelectedLeft(leftDevice.id);
-            if (rightDevice) setSelectedRight(rightDevice.id);
+        try {
+            const battery = await g1Manager.current.getBattery();
+            setBatteryLeft(battery.left);
+            setBatteryRight(battery.right);
 
+            const current = await g1Manager.current.getBrightness();
+            setBrightness(current.level);
         } catch (error) {
-            console.error('Scan failed:', error);
-            Alert.alert('Scan Failed', error instanceof Error ? error.message : 'Unknown error');
-        } finally {
-            setIsScanning(false);
+            console.error('Failed to read battery and brightness:', error);
         }
     };
 
-    const connectToGlasses = async () => {
-        if (!g1Manager.current || !selectedLeft || !selectedRight) {
-            Alert.alert('Error', 'Please select both left and right devices');
-            return;
-        }
+    // Reads battery, brightness, serial and firmware again
+    const refreshDeviceInfo = async () => {
+        if (!g1Manager.current) return;
 
+        await readSettings();
         try {
-            const success = await g1Manager.current.connectToGlasses(selectedLeft, selectedRight);
-            if (success) {
-                setIsConnected(true);
-
-                // Request initial battery status
-                setTimeout(() => {
-                    g1Manager.current?.getBatteryStatus();
-                }, 2000);
-            } else {
-                Alert.alert('Connection Failed', 'Could not connect to glasses');
-            }
+            await g1Manager.current.refreshDeviceInfo();
         } catch (error) {
-            console.error('Connection failed:', error);
-            Alert.alert('Connection Failed', error instanceof Error ? error.message : 'Unknown error');
+            console.error('Failed to read device info:', error);
         }
     };
 
@@ -185,10 +319,39 @@ const G1GlassesApp: React.FC = () => {
         if (!g1Manager.current || !isConnected) return;
 
         try {
-            await g1Manager.current.sendText(textToSend, x, y, false);
+            await g1Manager.current.display.sendText(textToSend, x, y, false);
         } catch (error) {
             console.error('Send text failed:', error);
-            Alert.alert('Error', 'Failed to send text');
+            Alert.alert('Could not send text', errorMessage(error, 'Failed to send text'));
+        }
+    };
+
+    // Tap the right touchpad for the next page, the left for the previous one, double tap to close
+    const openDocument = async () => {
+        if (!g1Manager.current || !isConnected) return;
+
+        try {
+            const document = await g1Manager.current.display.openDocument(textToSend);
+            document.onClose(() => console.log('Document closed'));
+        } catch (error) {
+            console.error('Open document failed:', error);
+            Alert.alert('Could not show pages', errorMessage(error, 'Failed to show text as pages'));
+        }
+    };
+
+    // A centred heading, the text below it and the time in the bottom right corner
+    const showRegions = async () => {
+        if (!g1Manager.current || !isConnected) return;
+
+        try {
+            await g1Manager.current.display.showRegions([
+                { text: 'G1 demo', x: 0, y: 0, align: 'center' },
+                { text: textToSend, x: 0, y: 27, height: 81 },
+                { text: new Date().toLocaleTimeString(), x: 0, y: 108, align: 'right' }
+            ]);
+        } catch (error) {
+            console.error('Show regions failed:', error);
+            Alert.alert('Could not show text', errorMessage(error, 'Failed to show text regions'));
         }
     };
 
@@ -208,11 +371,11 @@ const G1GlassesApp: React.FC = () => {
         };
 
         try {
-            await g1Manager.current.sendNotification(notification);
+            await g1Manager.current.notifications.sendNotification(notification);
             Alert.alert('Success', 'Notification sent to glasses');
         } catch (error) {
             console.error('Send notification failed:', error);
-            Alert.alert('Error', 'Failed to send notification');
+            Alert.alert('Could not send notification', errorMessage(error, 'Failed to send notification'));
         }
     };
 
@@ -220,11 +383,11 @@ const G1GlassesApp: React.FC = () => {
         if (!g1Manager.current || !isConnected) return;
 
         try {
-            await g1Manager.current.setBrightness(brightness);
+            await g1Manager.current.settings.setBrightness(brightness);
             Alert.alert('Success', `Brightness set to ${brightness}`);
         } catch (error) {
             console.error('Set brightness failed:', error);
-            Alert.alert('Error', 'Failed to set brightness');
+            Alert.alert('Could not set brightness', errorMessage(error, 'Failed to set brightness'));
         }
     };
 
@@ -232,15 +395,16 @@ const G1GlassesApp: React.FC = () => {
         if (!g1Manager.current || !isConnected) return;
 
         try {
-            await g1Manager.current.clearScreen();
+            await g1Manager.current.display.clearScreen();
             Alert.alert('Success', 'Screen cleared');
         } catch (error) {
             console.error('Clear screen failed:', error);
-            Alert.alert('Error', 'Failed to clear screen');
+            Alert.alert('Could not clear screen', errorMessage(error, 'Failed to clear screen'));
         }
     };
 
     const cleanup = async () => {
+        stopScan();
         if (g1Manager.current) {
             await g1Manager.current.disconnect();
         }
@@ -248,28 +412,51 @@ const G1GlassesApp: React.FC = () => {
 
     const silentMode = async () => {
         if (!g1Manager.current || !isConnected) return;
-        await g1Manager.current.setSilentMode(true);
+
+        try {
+            await g1Manager.current.settings.setSilentMode(true);
+        } catch (error) {
+            console.error('Set silent mode failed:', error);
+            Alert.alert('Could not set silent mode', errorMessage(error, 'Failed to set silent mode'));
+        }
     };
 
-    const renderDevice = (device: GlassesDeviceInfo) => (
-        <View key={device.id}>
-            <Text style={{ fontSize: 20, fontWeight: 'bold', color: 'blue' }}>{device.name}</Text>
-            <Text style={{ fontSize: 16, color: 'gray' }}>{device.isLeft ? 'Left' : 'Right'}</Text>
+    const renderArm = (arm: G1ArmInfo) => (
+        <View key={arm.id}>
+            <Text style={{ fontSize: 16, color: 'gray' }}>{arm.side === 'left' ? 'Left' : 'Right'}: {arm.name}</Text>
             <Text>
-                ID: {device.id.substring(0, 8)}... | RSSI: {device.rssi}dBm
+                ID: {arm.id.substring(0, 8)}... | RSSI: {arm.rssi}dBm
             </Text>
-            <View>
-                <TouchableOpacity
-                    onPress={() => setSelectedLeft(device.id)}
-                >
-                    <Text>Left</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                    onPress={() => setSelectedRight(device.id)}
-                >
-                    <Text>Right</Text>
-                </TouchableOpacity>
-            </View>
+        </View>
+    );
+
+    const renderPair = (pair: GlassesPair) => (
+        <View key={pair.channel}>
+            <Text style={{ fontSize: 20, fontWeight: 'bold', color: 'blue' }}>
+                G1 #{pair.channel}{selectedPair?.channel === pair.channel ? ' (selected)' : ''}
+            </Text>
+            {renderArm(pair.left)}
+            {renderArm(pair.right)}
+            <TouchableOpacity
+                onPress={() => setSelectedPair(pair)}
+            >
+                <Text>Select</Text>
+            </TouchableOpacity>
+        </View>
+    );
+
+    const renderKnownPair = (pair: KnownPair) => (
+        <View key={pair.id}>
+            <Text style={{ fontSize: 16, fontWeight: 'bold' }}>
+                {pair.nickname ?? `G1 #${pair.channel}`}
+            </Text>
+            <Text>Last seen: {new Date(pair.lastSeen).toLocaleString()}</Text>
+            <TouchableOpacity onPress={() => connectToKnownPair(pair)}>
+                <Text>Connect</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => forgetKnownPair(pair)}>
+                <Text style={{ color: 'red' }}>Forget this pair</Text>
+            </TouchableOpacity>
         </View>
     );
 
@@ -316,7 +503,7 @@ const G1GlassesApp: React.FC = () => {
         try {
             const buffer1 = new Uint8Array(Buffer.from(imageDataBase641 || '', 'base64'));
 
-            await g1Manager.current.sendBMPImage({
+            await g1Manager.current.display.sendBMPImage({
                 width,
                 height,
                 data: buffer1
@@ -324,7 +511,8 @@ const G1GlassesApp: React.FC = () => {
 
 
         } catch (err) {
-            console.error('Errore lettura BMP:', err.message);
+            console.error('Errore invio BMP:', err);
+            Alert.alert('Could not send image', errorMessage(err, 'Failed to send image'));
         }
     };
 
@@ -339,7 +527,7 @@ const G1GlassesApp: React.FC = () => {
         try {
             const buffer1 = new Uint8Array(Buffer.from(imageDataBase641 || '', 'base64'));
 
-            await g1Manager.current.showImage({
+            await g1Manager.current.display.showImage({
                 width,
                 height,
                 data: buffer1
@@ -347,7 +535,8 @@ const G1GlassesApp: React.FC = () => {
 
 
         } catch (err) {
-            console.error('Errore lettura BMP:', err.message);
+            console.error('Errore visualizzazione BMP:', err);
+            Alert.alert('Could not show image', errorMessage(err, 'Failed to show image'));
         }
     };
 
@@ -357,10 +546,10 @@ const G1GlassesApp: React.FC = () => {
         g1Manager.current.onDeviceEvent((event) => {
             console.log('Device Event:', event);
             // Add event to state
-            setEvents(prev => [`${new Date().toLocaleTimeString()}: ${event.type}`, ...prev]);
+            setEvents(prev => [`${new Date().toLocaleTimeString()}: ${describeDeviceEvent(event)}`, ...prev]);
         });
 
-        g1Manager.current.onBatteryUpdate((battery, isLeft) => {
+        g1Manager.current.settings.onBatteryUpdate((battery, isLeft) => {
             console.log('Battery Update:', battery, isLeft ? 'Left' : 'Right');
             if (isLeft) {
                 setBatteryLeft(battery);
@@ -373,6 +562,42 @@ const G1GlassesApp: React.FC = () => {
     return (
         <SafeAreaView>
             <ScrollView>
+                {showDeviceDetails && (
+                    <DeviceDetails
+                        info={deviceInfo}
+                        onRefresh={refreshDeviceInfo}
+                        onClose={() => setShowDeviceDetails(false)}
+                    />
+                )}
+                {showDeveloperSettings && (
+                    <DeveloperSettings
+                        recentLogs={recentLogs.current}
+                        logFile={logFile.current}
+                        onClose={() => setShowDeveloperSettings(false)}
+                    />
+                )}
+                {showTraffic && g1Manager.current && (
+                    <TrafficViewer
+                        recorder={g1Manager.current.traffic}
+                        onSaveSession={() => saveRecording(g1Manager.current!.captureSession())}
+                        onClose={() => setShowTraffic(false)}
+                    />
+                )}
+
+                {/* Bluetooth readiness */}
+                {readiness.error && (
+                    <View style={{ padding: 16 }}>
+                        <Text style={{ color: 'orange' }}>{readiness.error.message}</Text>
+                        {readiness.actions.map(action => (
+                            <Button key={action} onPress={() => {
+                                perform(action).catch(error => console.error(`Failed to ${action}:`, error));
+                            }}
+                                title={RECOVERY_ACTION_TITLES[action]}
+                            />
+                        ))}
+                    </View>
+                )}
+
                 {/* Connection Status */}
                 <View>
 
@@ -381,6 +606,24 @@ const G1GlassesApp: React.FC = () => {
                         <View style={{ flexDirection: 'column', alignItems: 'center', width: '100%', justifyContent: 'center' }}>
                             <Image source={require('../../assets/images/glasses.png')} style={{ width: "100%", height: 200 }} />
                             <Text style={{ color: 'green', fontSize: 40, }}>Connected</Text>
+                            <Text>Battery: L {batteryLeft ? `${batteryLeft.percentage}%` : '-'} / R {batteryRight ? `${batteryRight.percentage}%` : '-'}</Text>
+                            <Text>Link: L {describeLinkHealth(linkHealth.left)} / R {describeLinkHealth(linkHealth.right)}</Text>
+                            <Text>Brightness: {brightness}</Text>
+                            <Text>Model: {deviceInfo ? `${deviceInfo.model} (${deviceInfo.serial})` : '-'}</Text>
+                            <Button onPress={() => {
+                                setShowDeviceDetails(true);
+                            }}
+                                title="Device details"
+                            />
+                            <Button onPress={() => {
+                                setShowTraffic(true);
+                            }}
+                                title="Protocol traffic"
+                            />
+                            {connectionState.status !== 'ready' && 'available' in connectionState &&
+                                <Text style={{ color: 'orange' }}>
+                                    {connectionState.status === 'reconnecting' ? 'Reconnecting' : 'Degraded'}: {connectionState.available}
+                                </Text>}
                         </View>
 
 
@@ -388,11 +631,13 @@ const G1GlassesApp: React.FC = () => {
                         : <View style={{ flexDirection: 'column', alignItems: 'center', width: '100%', justifyContent: 'center' }}>
                             <Image source={require('../../assets/images/glasses.png')} style={{ width: "100%", height: 200 }} />
                             <ThemedText style={{ color: 'red' }}>Disconnected</ThemedText>
+                            {connectionState.status === 'failed' &&
+                                <Text style={{ color: 'red' }}>{connectionState.error.message}</Text>}
 
                             <Button onPress={() => {
-                                scanForDevices();
+                                isScanning ? stopScan() : scanForDevices();
                             }}
-                                title="Scan for devices"
+                                title={isScanning ? 'Stop scanning' : 'Scan for devices'}
                             />
 
                             <Button onPress={() => {
@@ -403,12 +648,30 @@ const G1GlassesApp: React.FC = () => {
 
                         </View>}
 
-                    {/*<ThemedText>Is Glasses Worn: {isGlassesWorn ? 'Worn' : 'Not Worn'}</ThemedText>
-                    <ThemedText>Is Glasses in Box: {isGlassesInBox ? 'In Box' : 'Not in Box'}</ThemedText>
-                    <ThemedText>Is Glasses Charging: {isGlassesCharging ? 'Charging' : 'Not Charging'}</ThemedText>
-                    <ThemedText>Is Glasses in Case: {isInCase ? 'In Case' : 'Not in Case'}</ThemedText>
-                    <ThemedText>Is Glasses in Silent Mode: {isInSilentMode ? 'Silent Mode' : 'Not Silent Mode'}</ThemedText>
-                    <ThemedText>Is Case Open: {isCaseOpen ? 'Open' : 'Closed'}</ThemedText> */}
+                    <Button onPress={() => {
+                        setShowDeveloperSettings(true);
+                    }}
+                        title="Developer settings"
+                        variant="secondary"
+                    />
+
+                    {isConnected && (
+                        <View>
+                            <ThemedText>Is Glasses Worn: {deviceStatus.worn ? 'Worn' : 'Not Worn'}</ThemedText>
+                            <ThemedText>Is Glasses Charging: {deviceStatus.charging ? 'Charging' : 'Not Charging'}</ThemedText>
+                            <ThemedText>Is Glasses in Case: {deviceStatus.inCase ? 'In Case' : 'Not in Case'}</ThemedText>
+                            <ThemedText>Is Glasses in Silent Mode: {deviceStatus.silentMode ? 'Silent Mode' : 'Not Silent Mode'}</ThemedText>
+                            <ThemedText>Is Case Open: {deviceStatus.caseLidOpen ? 'Open' : 'Closed'}</ThemedText>
+                        </View>
+                    )}
+
+                    {/* Latest device and connection events, newest first */}
+                    {events.length > 0 && (
+                        <View>
+                            <Text>Events</Text>
+                            {events.map((event, index) => <Text key={index}>{event}</Text>)}
+                        </View>
+                    )}
                 </View>
                 <View>
                     <TextInput
@@ -436,6 +699,18 @@ const G1GlassesApp: React.FC = () => {
                     title="Send text"
                 />
 
+                <Button onPress={() => {
+                    openDocument();
+                }}
+                    title="Show text as pages"
+                />
+
+                <Button onPress={() => {
+                    showRegions();
+                }}
+                    title="Show text regions"
+                />
+
                 <Button onPress={() => {
                     sendNotification();
                 }}
@@ -455,16 +730,25 @@ const G1GlassesApp: React.FC = () => {
                 />
 
                 <Button onPress={() => {
-                    g1Manager.current?.sendLoadingAnimation(50);
+                    g1Manager.current?.display.sendLoadingAnimation(50)
+                        .catch(error => Alert.alert('Could not show the loading animation', errorMessage(error, 'Failed to send the loading animation')));
                 }}
                     title="Send loading animation"
                 />
 
 
                 <Button onPress={() => {
-                    g1Manager.current?.getAudioRecording();
+                    g1Manager.current?.ai.startEvenAI()
+                        .catch(error => Alert.alert('Could not start Even AI', errorMessage(error, 'Failed to start the microphone')));
                 }}
-                    title="Get audio recording"
+                    title="Start Even AI microphone"
+                />
+
+                <Button onPress={() => {
+                    g1Manager.current?.ai.stopEvenAI()
+                        .catch(error => Alert.alert('Could not stop Even AI', errorMessage(error, 'Failed to stop the microphone')));
+                }}
+                    title="Stop Even AI microphone"
                 />
 
                 <Button onPress={() => {
@@ -486,24 +770,23 @@ const G1GlassesApp: React.FC = () => {
                     title="Disconnect from glasses"
                 />
 
-                {/* Device List */}
+                {/* Remembered Glasses */}
+                {knownPairs.length > 0 && (
+                    <View>
+                        <Text>Remembered Glasses</Text>
+                        {knownPairs.map(renderKnownPair)}
+                    </View>
+                )}
+
+                {/* Pair List */}
                 <View>
-                    <Text>Available Devices</Text>
-                    {devices.length > 0 ? (
-                        devices.map(renderDevice)
+                    <Text>Available Glasses</Text>
+                    {pairs.length > 0 ? (
+                        pairs.map(renderPair)
                     ) : (
-                        <Text>No devices found</Text>
+                        <Text>{isScanning ? `Scanning... ${scannedArms.length} arms seen` : 'No glasses found'}</Text>
                     )}
-                </View>
-
-                {/* Device Selection */}
-                <View>
-                    <TouchableOpacity>
-                        <Text>Left</Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity>
-                        <Text>Right</Text>
-                    </TouchableOpacity>
+                    {isScanning && scannedArms.map(renderArm)}
                 </View>
             </ScrollView>
         </SafeAreaView>
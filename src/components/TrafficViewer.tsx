@@ -0,0 +1,105 @@
+import { ThemedText } from '@/components/ThemedText';
+import { Button } from '@/components/ui/button';
+
+import React, { useEffect, useState } from 'react';
+import { Share, TextInput, View } from 'react-native';
+import { toHex, TrafficRecord, TrafficRecorder } from '../contoller';
+
+interface TrafficViewerProps {
+    recorder: TrafficRecorder;
+    onSaveSession: () => Promise<string>; // Resolves with the path of the saved session recording
+    onClose: () => void;
+}
+
+// Newest frames are shown first; the export always contains the whole filtered buffer
+const MAX_VISIBLE = 200;
+
+// Accepts "4e", "4E" or "0x4e"; anything else shows all commands
+const parseCommandFilter = (text: string): number | undefined => {
+    const match = /^(?:0x)?([0-9a-f]{1,2})$/i.exec(text.trim());
+    return match ? parseInt(match[1], 16) : undefined;
+};
+
+const formatTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleTimeString()}.${date.getMilliseconds().toString().padStart(3, '0')}`;
+};
+
+const TrafficViewer: React.FC<TrafficViewerProps> = ({ recorder, onSaveSession, onClose }) => {
+    const [enabled, setEnabled] = useState(recorder.enabled);
+    const [commandFilter, setCommandFilter] = useState('');
+    const [lastIndex, setLastIndex] = useState(recorder.lastIndex);
+    const [records, setRecords] = useState<TrafficRecord[]>([]);
+    const [savedPath, setSavedPath] = useState<string | null>(null);
+
+    // The recorder has no listeners, so poll for new frames
+    useEffect(() => {
+        const interval = setInterval(() => setLastIndex(recorder.lastIndex), 500);
+        return () => clearInterval(interval);
+    }, [recorder]);
+
+    useEffect(() => {
+        setRecords(recorder.records({ command: parseCommandFilter(commandFilter) }));
+    }, [recorder, lastIndex, commandFilter]);
+
+    const toggleRecording = () => {
+        recorder.enabled = !recorder.enabled;
+        setEnabled(recorder.enabled);
+    };
+
+    const clear = () => {
+        recorder.clear();
+        setRecords([]);
+    };
+
+    const exportCapture = async () => {
+        try {
+            await Share.share({
+                title: 'G1 traffic capture',
+                message: recorder.toJsonl({ command: parseCommandFilter(commandFilter) })
+            });
+        } catch (error) {
+            console.error('Failed to export traffic capture:', error);
+        }
+    };
+
+    const saveSession = async () => {
+        try {
+            setSavedPath(await onSaveSession());
+        } catch (error) {
+            console.error('Failed to save session recording:', error);
+        }
+    };
+
+    const renderRecord = (record: TrafficRecord) => (
+        <View key={record.index} style={{ marginBottom: 6 }}>
+            <ThemedText style={{ color: record.direction === 'tx' ? '#3b82f6' : '#22c55e' }}>
+                {formatTime(record.timestamp)} {record.direction.toUpperCase()} {record.side === 'left' ? 'L' : 'R'} {record.meaning}
+            </ThemedText>
+            <ThemedText style={{ fontFamily: 'monospace', fontSize: 12 }}>{toHex(record.frame)}</ThemedText>
+        </View>
+    );
+
+    return (
+        <View style={{ padding: 16 }}>
+            <ThemedText type="subtitle">Protocol traffic</ThemedText>
+            <ThemedText>{enabled ? 'Recording' : 'Not recording'}, {recorder.size} frames buffered</ThemedText>
+            <Button onPress={toggleRecording} title={enabled ? 'Stop recording' : 'Start recording'} />
+            <TextInput
+                placeholder="Command byte, e.g. 4E"
+                value={commandFilter}
+                autoCapitalize="none"
+                style={{ height: 40, borderColor: 'gray', borderWidth: 1, marginBottom: 10, color: "white" }}
+                onChangeText={setCommandFilter}
+            />
+            <Button onPress={exportCapture} title="Export JSONL" />
+            <Button onPress={saveSession} title="Save session for replay" />
+            {savedPath && <ThemedText>Saved to {savedPath}</ThemedText>}
+            <Button onPress={clear} title="Clear" variant="secondary" />
+            <Button onPress={onClose} title="Close" variant="secondary" />
+            {records.slice(-MAX_VISIBLE).reverse().map(renderRecord)}
+        </View>
+    );
+};
+
+export default TrafficViewer;
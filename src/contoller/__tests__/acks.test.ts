@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { AckTracker } from '../acks';
+import { NackedError, TimeoutError } from '../errors';
+import { EvenRealitiesG1Manager } from '../glasses2';
+import { logging } from '../logger';
+import { COMMANDS, RESPONSE } from '../protocol';
+import { SimulatedG1Transport } from '../simulator';
+
+logging.level = 'silent';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const frame = (...bytes: number[]) => new Uint8Array(bytes);
+
+describe('AckTracker', () => {
+  test('matches a reply to the command with the same sequence', async () => {
+    const acks = new AckTracker();
+    const first = acks.expect('left', frame(COMMANDS.SEND_TEXT, 1), 1000);
+    const second = acks.expect('left', frame(COMMANDS.SEND_TEXT, 2), 1000);
+
+    assert.equal(acks.handleResponse('left', frame(COMMANDS.SEND_TEXT, RESPONSE.SUCCESS, 2)), true);
+    assert.equal((await second.reply).status, 'acked');
+
+    assert.equal(acks.handleResponse('left', frame(COMMANDS.SEND_TEXT, RESPONSE.FAILURE, 1)), true);
+    assert.equal((await first.reply).status, 'nacked');
+  });
+
+  test('ignores replies for another arm, command or sequence', () => {
+    const acks = new AckTracker();
+    const pending = acks.expect('left', frame(COMMANDS.SEND_TEXT, 1), 1000);
+
+    assert.equal(acks.handleResponse('right', frame(COMMANDS.SEND_TEXT, RESPONSE.SUCCESS, 1)), false);
+    assert.equal(acks.handleResponse('left', frame(COMMANDS.SET_BRIGHTNESS, RESPONSE.SUCCESS)), false);
+    assert.equal(acks.handleResponse('left', frame(COMMANDS.SEND_TEXT, RESPONSE.SUCCESS, 2)), false);
+
+    pending.cancel();
+  });
+
+  test('times out, and a continue reply restarts the timeout', async () => {
+    const acks = new AckTracker();
+    const silent = acks.expect('left', frame(COMMANDS.SET_BRIGHTNESS, 10, 0), 30);
+    const slow = acks.expect('right', frame(COMMANDS.SET_BRIGHTNESS, 10, 0), 30);
+
+    await sleep(20);
+    acks.handleResponse('right', frame(COMMANDS.SET_BRIGHTNESS, RESPONSE.CONTINUE));
+    assert.equal((await silent.reply).status, 'timeout');
+
+    acks.handleResponse('right', frame(COMMANDS.SET_BRIGHTNESS, RESPONSE.SUCCESS));
+    assert.equal((await slow.reply).status, 'acked');
+  });
+
+  test('cancelAll settles what is waiting on one arm', async () => {
+    const acks = new AckTracker();
+    const left = acks.expect('left', frame(COMMANDS.SET_BRIGHTNESS, 10, 0), 1000);
+    const right = acks.expect('right', frame(COMMANDS.SET_BRIGHTNESS, 10, 0), 1000);
+
+    acks.cancelAll('left');
+
+    assert.equal((await left.reply).status, 'timeout');
+    assert.equal(acks.handleResponse('right', frame(COMMANDS.SET_BRIGHTNESS, RESPONSE.SUCCESS)), true);
+    assert.equal((await right.reply).status, 'acked');
+  });
+});
+
+describe('retries on SimulatedG1Transport', () => {
+  const connect = async (options: { ackTimeoutMs?: number; retries?: number }) => {
+    const transport = new SimulatedG1Transport();
+    const manager = new EvenRealitiesG1Manager(transport, { reconnectAttempts: 0, ...options });
+    await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+    return { transport, manager };
+  };
+
+  const brightnessWrites = (transport: SimulatedG1Transport) =>
+    transport.pair.right.received.filter(received => received[0] === COMMANDS.SET_BRIGHTNESS).length;
+
+  test('resends a nacked command until it is acknowledged', async () => {
+    const { transport, manager } = await connect({ retries: 2 });
+    transport.pair.right.nackNext(COMMANDS.SET_BRIGHTNESS);
+    transport.pair.right.nackNext(COMMANDS.SET_BRIGHTNESS);
+
+    await manager.settings.setBrightness(10);
+
+    assert.equal(brightnessWrites(transport), 3);
+    await manager.disconnect();
+  });
+
+  test('gives up after the configured retries', async () => {
+    const { transport, manager } = await connect({ retries: 1 });
+    for (let attempt = 0; attempt < 3; attempt++) {
+      transport.pair.right.nackNext(COMMANDS.SET_BRIGHTNESS);
+    }
+
+    await assert.rejects(manager.settings.setBrightness(10), NackedError);
+    assert.equal(brightnessWrites(transport), 2);
+    await manager.disconnect();
+  });
+
+  test('times out when an arm answers too late', async () => {
+    const { transport, manager } = await connect({ ackTimeoutMs: 50 });
+    transport.pair.right.latencyMs = 200;
+
+    await assert.rejects(manager.settings.setBrightness(10), TimeoutError);
+    await manager.disconnect();
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { BluetoothPermissions, BluetoothReadinessService, PermissionState } from '../bluetoothReadiness';
+import { BluetoothOffError, PermissionDeniedError } from '../errors';
+import { logging } from '../logger';
+import { SimulatedG1Transport } from '../simulator';
+
+logging.level = 'silent';
+
+function permissions(state: PermissionState): BluetoothPermissions {
+  return {
+    check: async () => state,
+    request: async () => state,
+    openAppSettings: async () => {},
+    canOpenBluetoothSettings: false,
+    openBluetoothSettings: async () => {}
+  };
+}
+
+describe('BluetoothReadinessService', () => {
+  test('is ready with permission granted and the adapter on', async () => {
+    const service = new BluetoothReadinessService(new SimulatedG1Transport(), permissions('granted'));
+
+    assert.equal((await service.refresh()).status, 'ready');
+    await service.ensureReady();
+  });
+
+  test('offers a retry when the permission could not be checked', async () => {
+    const service = new BluetoothReadinessService(new SimulatedG1Transport(), permissions('unknown'));
+
+    const readiness = await service.refresh();
+
+    assert.equal(readiness.status, 'unknown');
+    assert.deepEqual(readiness.actions, ['retry']);
+    await assert.rejects(service.ensureReady(), PermissionDeniedError);
+  });
+
+  test('reports the adapter being off', async () => {
+    const transport = new SimulatedG1Transport();
+    transport.setPowerState('PoweredOff');
+    const service = new BluetoothReadinessService(transport, permissions('granted'));
+
+    assert.equal((await service.refresh()).status, 'poweredOff');
+    await assert.rejects(service.ensureReady(), BluetoothOffError);
+  });
+});
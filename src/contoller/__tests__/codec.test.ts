@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import {
+  createTextChunks,
+  DASHBOARD_MODES,
+  decodeCommand,
+  decodeInbound,
+  encodeCommand,
+  encodeDashboardTimeAndWeather,
+  encodeInbound,
+  G1Command,
+  G1InboundMessage,
+  WeatherData
+} from '../codec';
+import { InvalidArgumentError } from '../errors';
+import { COMMANDS, FIRMWARE_INFO_PREFIX, SCREEN_STATUS } from '../protocol';
+
+const WEATHER: WeatherData = { icon: 0x10, temperature: -5, isCelsius: true, is24Hour: true };
+const NOW = new Date(Date.UTC(2024, 11, 28, 20, 20, 45, 123));
+
+// One sample per codec. The mapped types make the compiler flag a command without a sample.
+const COMMAND_SAMPLES: { [K in G1Command['command']]: Extract<G1Command, { command: K }> } = {
+  SET_BRIGHTNESS: { command: 'SET_BRIGHTNESS', level: 0x2A, autoMode: true },
+  SET_SILENT_MODE: { command: 'SET_SILENT_MODE', enabled: true },
+  SET_NOTIFICATION_APPS: { command: 'SET_NOTIFICATION_APPS', totalChunks: 2, chunkIndex: 1, data: new Uint8Array([0x7B, 0x7D]) },
+  SET_DASHBOARD: { command: 'SET_DASHBOARD', sequence: 7, setting: { kind: 'mode', mode: DASHBOARD_MODES.DUAL, secondaryPane: 3 } },
+  MICROPHONE_CONTROL: { command: 'MICROPHONE_CONTROL', enabled: false },
+  SEND_BITMAP: { command: 'SEND_BITMAP', index: 0, data: new Uint8Array([1, 2, 3]) },
+  CLEAR_SCREEN: { command: 'CLEAR_SCREEN' },
+  SEND_QUICK_NOTE: { command: 'SEND_QUICK_NOTE', sequence: 1, slot: 4, title: 'Caffè', text: 'Ricordati il latte' },
+  SEND_HARD_RESET: { command: 'SEND_HARD_RESET' },
+  GET_FIRMWARE_INFO: { command: 'GET_FIRMWARE_INFO' },
+  SEND_HEARTBEAT: { command: 'SEND_HEARTBEAT', sequence: 0xFF },
+  GET_BRIGHTNESS: { command: 'GET_BRIGHTNESS' },
+  GET_BATTERY: { command: 'GET_BATTERY' },
+  GET_SERIAL: { command: 'GET_SERIAL' },
+  SEND_UNPAIR: { command: 'SEND_UNPAIR' },
+  SEND_NOTIFICATION: { command: 'SEND_NOTIFICATION', totalChunks: 1, chunkIndex: 0, data: new Uint8Array([0x7B, 0x7D]) },
+  CLEAR_NOTIFICATION: { command: 'CLEAR_NOTIFICATION', msgId: 0xFFFFFFFF },
+  INIT: { command: 'INIT' },
+  SEND_TEXT: {
+    command: 'SEND_TEXT',
+    sequence: 3,
+    totalPackets: 2,
+    currentPacket: 1,
+    status: SCREEN_STATUS.NEW_CONTENT | SCREEN_STATUS.EVEN_AI_COMPLETE,
+    charPosition: 300,
+    currentPage: 2,
+    maxPages: 4,
+    data: new TextEncoder().encode('Hello')
+  },
+  SET_NOTIFICATION_AUTO_DISPLAY: { command: 'SET_NOTIFICATION_AUTO_DISPLAY', enabled: true, timeoutSeconds: 5 },
+  SEND_DASHBOARD_LOCK: { command: 'SEND_DASHBOARD_LOCK', locked: true },
+  SET_DEBUG_MODE: { command: 'SET_DEBUG_MODE', enabled: true },
+  BMP_TRANSMISSION_END: { command: 'BMP_TRANSMISSION_END' },
+  CRC_CHECK: { command: 'CRC_CHECK', crc: 0xDEADBEEF }
+};
+
+const INBOUND_SAMPLES: { [K in G1InboundMessage['command']]: Extract<G1InboundMessage, { command: K }> } = {
+  GET_BATTERY: { command: 'GET_BATTERY', battery: { percentage: 87, isCharging: true, voltage: 3900 } },
+  GET_BRIGHTNESS: { command: 'GET_BRIGHTNESS', level: 12, autoMode: false },
+  GET_SERIAL: { command: 'GET_SERIAL', serial: 'S110LABD020021' },
+  GET_FIRMWARE_INFO: { command: 'GET_FIRMWARE_INFO', info: `${FIRMWARE_INFO_PREFIX}: 2024-12-28 20:20:45 ver 1.4.5` },
+  GET_AUDIO_RECORDING: { command: 'GET_AUDIO_RECORDING', sequence: 9, data: new Uint8Array([0xAA, 0xBB]) },
+  DEVICE_EVENTS: { command: 'DEVICE_EVENTS', event: 0x01, payload: new Uint8Array([0x00]) }
+};
+
+describe('encodeCommand/decodeCommand', () => {
+  for (const message of Object.values(COMMAND_SAMPLES)) {
+    test(`round-trips ${message.command}`, () => {
+      const frame = encodeCommand(message);
+
+      assert.equal(frame[0], [COMMANDS[message.command]].flat()[0]);
+      assert.deepEqual(decodeCommand(frame), message);
+    });
+  }
+
+  test('round-trips the time and weather dashboard setting', () => {
+    const message: G1Command = { command: 'SET_DASHBOARD', sequence: 1, setting: { kind: 'timeAndWeather', timestamp: NOW.getTime(), weather: WEATHER } };
+
+    assert.deepEqual(decodeCommand(encodeCommand(message)), message);
+  });
+
+  test('rejects values the frame cannot carry', () => {
+    const cases: G1Command[] = [
+      { command: 'SET_BRIGHTNESS', level: 0x2B, autoMode: false },
+      { command: 'SET_BRIGHTNESS', level: 1.5, autoMode: false },
+      { command: 'SEND_HEARTBEAT', sequence: 256 },
+      { command: 'SEND_HEARTBEAT', sequence: -1 },
+      { command: 'SEND_QUICK_NOTE', sequence: 1, slot: 5, title: 'Title', text: 'Text' },
+      { command: 'SET_DASHBOARD', sequence: 1, setting: { kind: 'mode', mode: 3, secondaryPane: 0 } },
+      { command: 'SET_DASHBOARD', sequence: 1, setting: { kind: 'timeAndWeather', timestamp: NOW.getTime(), weather: { ...WEATHER, temperature: 200 } } },
+      { command: 'SET_DASHBOARD', sequence: 1, setting: { kind: 'timeAndWeather', timestamp: NOW.getTime(), weather: { ...WEATHER, icon: 0x11 } } },
+      { command: 'SET_NOTIFICATION_APPS', totalChunks: 2, chunkIndex: 2, data: new Uint8Array() },
+      { command: 'CLEAR_NOTIFICATION', msgId: 0x100000000 }
+    ];
+
+    for (const message of cases) {
+      assert.throws(() => encodeCommand(message), InvalidArgumentError, JSON.stringify(message));
+    }
+  });
+});
+
+describe('encodeInbound/decodeInbound', () => {
+  for (const message of Object.values(INBOUND_SAMPLES)) {
+    test(`round-trips ${message.command}`, () => {
+      assert.deepEqual(decodeInbound(encodeInbound(message)), message);
+    });
+  }
+
+  test('rejects values the frame cannot carry', () => {
+    assert.throws(() => encodeInbound({ command: 'GET_BATTERY', battery: { percentage: 101, isCharging: false } }), InvalidArgumentError);
+    assert.throws(() => encodeInbound({ command: 'DEVICE_EVENTS', event: 0x100, payload: new Uint8Array() }), InvalidArgumentError);
+  });
+
+  test('returns null for plain replies', () => {
+    assert.equal(decodeInbound(new Uint8Array([COMMANDS.SET_BRIGHTNESS, 0xC9])), null);
+  });
+});
+
+describe('encodeDashboardTimeAndWeather', () => {
+  // The frame used to be built in an 18-byte buffer, which silently dropped the last three bytes
+  test('writes the whole 21-byte frame, with its length in byte 1', () => {
+    const frame = encodeDashboardTimeAndWeather(5, WEATHER, NOW);
+
+    assert.equal(frame.length, 21);
+    assert.equal(frame[1], frame.length);
+    assert.deepEqual(Array.from(frame.slice(-4)), [0x10, 0xFB, 0x00, 0x01]);
+    assert.deepEqual(decodeCommand(frame), {
+      command: 'SET_DASHBOARD',
+      sequence: 5,
+      setting: { kind: 'timeAndWeather', timestamp: NOW.getTime(), weather: WEATHER }
+    });
+  });
+});
+
+describe('createTextChunks', () => {
+  const strict = new TextDecoder('utf-8', { fatal: true });
+
+  // Two-, three- and four-byte characters, at every offset a chunk boundary can fall on
+  for (const [name, lines] of [
+    ['accented Italian', ['Perché è già così?', 'Sì, più tardi.']],
+    ['CJK', ['你好，世界', 'こんにちは']],
+    ['box drawing', ['┌───┐', '│ A │', '└───┘']],
+    ['emoji', ['Ciao 👋🏽']]
+  ] as [string, string[]][]) {
+    test(`never splits a UTF-8 sequence in ${name}`, () => {
+      for (let chunkSize = 4; chunkSize <= 12; chunkSize++) {
+        const chunks = createTextChunks(lines, chunkSize);
+
+        assert.ok(chunks.every(chunk => chunk.length > 0 && chunk.length <= chunkSize), `chunk size ${chunkSize}`);
+        assert.equal(chunks.map(chunk => strict.decode(chunk)).join(''), lines.join('\n'), `chunk size ${chunkSize}`);
+      }
+    });
+  }
+});
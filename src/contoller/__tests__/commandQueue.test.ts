@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { CommandQueue } from '../commandQueue';
+import { CommandCancelledError, QueueFullError } from '../errors';
+
+describe('CommandQueue', () => {
+  test('refuses bulk commands with QueueFullError once full', async () => {
+    const queue = new CommandQueue(1);
+    let release = () => {};
+    const inFlight = queue.enqueue(() => new Promise<void>(resolve => { release = resolve; }), 'bulk');
+    const waiting = queue.enqueue(async () => {}, 'bulk');
+
+    await assert.rejects(queue.enqueue(async () => {}, 'bulk'), QueueFullError);
+
+    release();
+    await Promise.all([inFlight, waiting]);
+  });
+
+  test('rejects dropped commands with CommandCancelledError', async () => {
+    const queue = new CommandQueue();
+    let release = () => {};
+    const inFlight = queue.enqueue(() => new Promise<void>(resolve => { release = resolve; }), 'bulk', 'bitmap');
+    const waiting = queue.enqueue(async () => {}, 'bulk', 'bitmap');
+
+    assert.equal(queue.cancel('bitmap'), 1);
+    await assert.rejects(waiting, CommandCancelledError);
+
+    release();
+    await inFlight;
+  });
+});
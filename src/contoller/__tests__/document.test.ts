@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+
+import { LINES_PER_SCREEN } from '../codec';
+import { DEVICE_EVENT_CODES } from '../deviceEvents';
+import { TextDocument } from '../features/display';
+import { EvenRealitiesG1Manager } from '../glasses2';
+import { logging } from '../logger';
+import { COMMANDS } from '../protocol';
+import { SimulatedG1Arm, SimulatedG1Transport } from '../simulator';
+
+logging.level = 'silent';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Three pages: two full screens and one line
+const TEXT = Array.from({ length: LINES_PER_SCREEN * 2 + 1 }, (_, i) => `Line ${i + 1}`).join('\n');
+
+// [currentPage, maxPages] from the header of every text packet the arm received
+function pageHeaders(arm: SimulatedG1Arm): [number, number][] {
+  return arm.received.filter(frame => frame[0] === COMMANDS.SEND_TEXT).map(frame => [frame[7], frame[8]]);
+}
+
+describe('TextDocument on SimulatedG1Transport', () => {
+  let transport: SimulatedG1Transport;
+  let manager: EvenRealitiesG1Manager;
+  let document: TextDocument;
+
+  // Lets the event reach the manager and the page it triggers reach both arms
+  const tap = async (arm: SimulatedG1Arm, code: number) => {
+    arm.emitEvent(code);
+    await sleep(50);
+  };
+
+  beforeEach(async () => {
+    transport = new SimulatedG1Transport();
+    manager = new EvenRealitiesG1Manager(transport, { reconnectAttempts: 0 });
+    await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+    document = await manager.display.openDocument(TEXT);
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('shows the first page with the page indicator', () => {
+    const screen = transport.pair.left.screen;
+
+    assert.equal(document.pageCount, 3);
+    assert.equal(screen.kind === 'text' && screen.text, 'Line 1\nLine 2\nLine 3\nLine 4\nLine 5');
+    assert.deepEqual(pageHeaders(transport.pair.left), [[1, 3]]);
+    assert.deepEqual(pageHeaders(transport.pair.right), [[1, 3]]);
+  });
+
+  test('a right tap goes forward and a left tap goes back', async () => {
+    await tap(transport.pair.right, DEVICE_EVENT_CODES.SINGLE_TAP);
+    assert.equal(document.page, 1);
+    assert.deepEqual(pageHeaders(transport.pair.left).at(-1), [2, 3]);
+
+    await tap(transport.pair.left, DEVICE_EVENT_CODES.SINGLE_TAP);
+    assert.equal(document.page, 0);
+    assert.deepEqual(pageHeaders(transport.pair.right), [[1, 3], [2, 3], [1, 3]]);
+  });
+
+  test('paging stops at the first and the last page', async () => {
+    await tap(transport.pair.left, DEVICE_EVENT_CODES.SINGLE_TAP);
+    assert.equal(document.page, 0);
+    assert.deepEqual(pageHeaders(transport.pair.left), [[1, 3]]);
+
+    for (let i = 0; i < 4; i++) {
+      await tap(transport.pair.right, DEVICE_EVENT_CODES.SINGLE_TAP);
+    }
+    assert.equal(document.page, 2);
+    assert.deepEqual(pageHeaders(transport.pair.left), [[1, 3], [2, 3], [3, 3]]);
+
+    const screen = transport.pair.left.screen;
+    assert.equal(screen.kind === 'text' && screen.text, 'Line 11');
+  });
+
+  test('a double tap closes the document', async () => {
+    let closed = false;
+    document.onClose(() => closed = true);
+
+    await tap(transport.pair.left, DEVICE_EVENT_CODES.DOUBLE_TAP);
+
+    assert.equal(closed, true);
+    assert.equal(document.isOpen, false);
+    assert.equal(transport.pair.left.screen.kind, 'blank');
+    assert.equal(transport.pair.right.screen.kind, 'blank');
+
+    await tap(transport.pair.right, DEVICE_EVENT_CODES.SINGLE_TAP);
+    assert.equal(pageHeaders(transport.pair.right).length, 1);
+  });
+
+  test('update keeps the page, and does nothing once closed', async () => {
+    await tap(transport.pair.right, DEVICE_EVENT_CODES.SINGLE_TAP);
+
+    await document.update(TEXT.replace('Line 6', 'Line six'));
+    const screen = transport.pair.left.screen;
+    assert.equal(screen.kind === 'text' && screen.text.split('\n')[0], 'Line six');
+    assert.deepEqual(pageHeaders(transport.pair.left).at(-1), [2, 3]);
+
+    await document.close();
+    const sent = transport.pair.left.received.length;
+    await document.update('Something else');
+
+    assert.equal(transport.pair.left.received.length, sent);
+    assert.equal(transport.pair.left.screen.kind, 'blank');
+  });
+});
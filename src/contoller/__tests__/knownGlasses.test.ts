@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { KnownGlassesStorage, KnownGlassesStore, knownPairId } from '../knownGlasses';
+import { logging } from '../logger';
+import { GlassesPair } from '../pairing';
+import { ArmSide } from '../transport';
+
+logging.level = 'silent';
+
+class MemoryStorage implements KnownGlassesStorage {
+  contents: string | null;
+
+  constructor(contents: string | null = null) {
+    this.contents = contents;
+  }
+
+  async read(): Promise<string | null> {
+    return this.contents;
+  }
+
+  async write(contents: string): Promise<void> {
+    this.contents = contents;
+  }
+}
+
+function pair(channel: number, serial: string): GlassesPair {
+  const arm = (side: ArmSide) => ({
+    id: `${serial}-${side}`,
+    name: `Even G1_${channel}_${side === 'left' ? 'L' : 'R'}_${serial}`,
+    channel,
+    side,
+    serial
+  });
+  return { channel, left: arm('left'), right: arm('right') };
+}
+
+describe('KnownGlassesStore', () => {
+  test('keeps two pairs that share a channel apart', async () => {
+    const store = new KnownGlassesStore(new MemoryStorage());
+    const first = await store.remember(pair(7, 'AAA'));
+    const second = await store.remember(pair(7, 'BBB'));
+
+    assert.equal((await store.list()).length, 2);
+    assert.equal(first.id, knownPairId('AAA-left', 'AAA-right'));
+
+    await store.rename(first.id, 'Office');
+    await store.forget(second.id);
+
+    const [remaining] = await store.list();
+    assert.equal(remaining.nickname, 'Office');
+    assert.equal(remaining.channel, 7);
+    assert.equal(await store.find(second.id), undefined);
+  });
+
+  test('keeps the nickname when a pair is remembered again', async () => {
+    const store = new KnownGlassesStore(new MemoryStorage());
+    const known = await store.remember(pair(3, 'AAA'), 'Home');
+
+    assert.equal((await store.remember(pair(3, 'AAA'))).nickname, 'Home');
+    assert.equal((await store.list()).length, 1);
+    assert.equal((await store.find(known.id))?.nickname, 'Home');
+  });
+
+  test('gives pairs saved without an id one from their arms', async () => {
+    const saved = [{ channel: 5, left: { id: 'L1', name: 'L', serial: 'S' }, right: { id: 'R1', name: 'R', serial: 'S' }, lastSeen: 1 }];
+    const store = new KnownGlassesStore(new MemoryStorage(JSON.stringify(saved)));
+
+    const [known] = await store.list();
+
+    assert.equal(known.id, knownPairId('L1', 'R1'));
+    await store.markSeen(known.id);
+    assert.ok((await store.list())[0].lastSeen > 1);
+  });
+
+  test('drops entries that are not pairs', async () => {
+    const store = new KnownGlassesStore(new MemoryStorage(JSON.stringify([null, 4, { channel: 1, left: {}, right: { id: 'R' }, lastSeen: 0 }])));
+
+    assert.deepEqual(await store.list(), []);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { LinkHealthTracker, linkQuality } from '../linkHealth';
+
+describe('LinkHealthTracker', () => {
+  test('is unknown until the first beat', () => {
+    const health = new LinkHealthTracker('left').current;
+
+    assert.equal(health.score, null);
+    assert.equal(health.quality, 'unknown');
+    assert.equal(health.latencyMs, null);
+  });
+
+  test('scores fast answered beats as good', () => {
+    const tracker = new LinkHealthTracker('left');
+    tracker.recordBeat(80);
+    const health = tracker.recordBeat(120);
+
+    assert.equal(health.latencyMs, 100);
+    assert.equal(health.lastLatencyMs, 120);
+    assert.equal(health.score, 100);
+    assert.equal(health.quality, 'good');
+  });
+
+  test('takes off for slow round trips and a weak signal', () => {
+    const slow = new LinkHealthTracker('left');
+    assert.equal(slow.recordBeat(1000).score, 70);
+
+    const weak = new LinkHealthTracker('right');
+    weak.recordBeat(100);
+    assert.equal(weak.recordRssi(-80).score, 90);
+    assert.equal(weak.recordRssi(-100).score, 80);
+  });
+
+  test('counts missed beats in a row until one comes back', () => {
+    const tracker = new LinkHealthTracker('left');
+    tracker.recordBeat(100);
+    tracker.recordBeat(null);
+    const missed = tracker.recordBeat(null);
+
+    assert.equal(missed.missedBeats, 2);
+    assert.equal(missed.score, 33);
+    assert.equal(missed.quality, 'poor');
+
+    const back = tracker.recordBeat(100);
+    assert.equal(back.missedBeats, 0);
+    assert.equal(back.totalMissed, 2);
+    assert.equal(back.quality, 'fair');
+  });
+
+  test('only scores the beats in its window', () => {
+    const tracker = new LinkHealthTracker('left', 2);
+    tracker.recordBeat(null);
+    tracker.recordBeat(100);
+    const health = tracker.recordBeat(100);
+
+    assert.equal(health.score, 100);
+    assert.equal(health.totalMissed, 1);
+  });
+
+  test('reset starts from a clean slate', () => {
+    const tracker = new LinkHealthTracker('left');
+    tracker.recordBeat(null);
+    tracker.recordRssi(-95);
+    tracker.reset();
+
+    assert.deepEqual(tracker.current, new LinkHealthTracker('left').current);
+  });
+
+  test('maps scores to qualities', () => {
+    assert.equal(linkQuality(80), 'good');
+    assert.equal(linkQuality(79), 'fair');
+    assert.equal(linkQuality(50), 'fair');
+    assert.equal(linkQuality(49), 'poor');
+  });
+});
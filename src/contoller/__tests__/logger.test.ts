@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+
+import { consoleLogSink, createLogger, formatLogEntry, LogConfig, LogEntry, logging, MemoryLogSink } from '../logger';
+
+const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+  timestamp: Date.UTC(2025, 0, 31, 10),
+  level: 'info',
+  tag: 'core',
+  message: 'Hello',
+  data: [],
+  ...overrides
+});
+
+describe('LogConfig', () => {
+  test('drops entries below the level of their tag', () => {
+    const config = new LogConfig();
+    const sink = new MemoryLogSink();
+    config.addSink(sink);
+    config.level = 'warn';
+    config.setTagLevel('display', 'debug');
+
+    config.write(entry({ level: 'info' }));
+    config.write(entry({ level: 'error' }));
+    config.write(entry({ level: 'debug', tag: 'display' }));
+
+    assert.deepEqual(sink.entries().map(e => `${e.tag}:${e.level}`), ['core:error', 'display:debug']);
+
+    config.setTagLevel('display', null);
+    assert.equal(config.levelFor('display'), 'warn');
+  });
+
+  test('keeps writing to the other sinks when one throws', () => {
+    const config = new LogConfig();
+    const sink = new MemoryLogSink();
+    config.addSink({ write: () => { throw new Error('Disk full'); } });
+    config.addSink(sink);
+
+    config.write(entry());
+
+    assert.equal(sink.count, 1);
+  });
+
+  test('tells listeners about changes', () => {
+    const config = new LogConfig();
+    let changes = 0;
+    const unsubscribe = config.onChange(() => changes++);
+
+    config.level = 'debug';
+    config.addSink(new MemoryLogSink());
+    unsubscribe();
+    config.level = 'info';
+
+    assert.equal(changes, 2);
+  });
+});
+
+describe('MemoryLogSink', () => {
+  test('keeps the latest entries up to its capacity', () => {
+    const sink = new MemoryLogSink(2);
+    ['one', 'two', 'three'].forEach(message => sink.write(entry({ message })));
+
+    assert.deepEqual(sink.entries().map(e => e.message), ['two', 'three']);
+    assert.equal(sink.count, 3);
+
+    sink.clear();
+    assert.deepEqual(sink.entries(), []);
+    assert.equal(sink.count, 3);
+  });
+
+  test('filters by tag', () => {
+    const sink = new MemoryLogSink();
+    sink.write(entry({ tag: 'scan' }));
+    sink.write(entry({ tag: 'audio' }));
+
+    assert.deepEqual(sink.entries('audio').map(e => e.tag), ['audio']);
+  });
+});
+
+describe('createLogger', () => {
+  const sink = new MemoryLogSink();
+
+  beforeEach(() => {
+    logging.removeSink(consoleLogSink);
+    logging.addSink(sink);
+    logging.level = 'info';
+  });
+
+  afterEach(() => {
+    logging.removeSink(sink);
+    logging.addSink(consoleLogSink);
+    sink.clear();
+  });
+
+  test('writes tagged entries through the shared config', () => {
+    const log = createLogger('settings');
+    log.debug('Hidden');
+    log.warn('Low battery', 12);
+
+    assert.equal(log.isEnabled('debug'), false);
+    assert.deepEqual(sink.entries().map(({ level, tag, message, data }) => ({ level, tag, message, data })), [
+      { level: 'warn', tag: 'settings', message: 'Low battery', data: [12] }
+    ]);
+  });
+});
+
+describe('formatLogEntry', () => {
+  test('puts time, level, tag, message and data on one line', () => {
+    const line = formatLogEntry(entry({ level: 'warn', tag: 'transport', message: 'Dropped:', data: [new TypeError('Gone'), { side: 'left' }] }));
+
+    assert.equal(line, '2025-01-31T10:00:00.000Z WARN [transport] Dropped: TypeError: Gone {"side":"left"}');
+  });
+});
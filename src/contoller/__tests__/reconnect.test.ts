@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { ConnectionStateMachine } from '../connectionState';
+import { InvalidStateError } from '../errors';
+import { ConnectionEvent, EvenRealitiesG1Manager } from '../glasses2';
+import { logging } from '../logger';
+import { SimulatedG1Transport } from '../simulator';
+
+logging.level = 'silent';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Read through a function so the assertions do not narrow the state for the ones after them
+const statusOf = (manager: EvenRealitiesG1Manager) => manager.connectionState.status;
+
+describe('reconnecting', () => {
+  test('reconnects a dropped arm and restores the session', async () => {
+    const transport = new SimulatedG1Transport();
+    const manager = new EvenRealitiesG1Manager(transport, { reconnectBaseDelayMs: 20 });
+    const events: ConnectionEvent['type'][] = [];
+    manager.onConnectionEvent(event => events.push(event.type));
+
+    await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+    transport.pair.right.dropConnection();
+    assert.equal(statusOf(manager), 'reconnecting');
+
+    await sleep(200);
+    assert.equal(statusOf(manager), 'ready');
+    assert.deepEqual(events.slice(-3), ['reconnecting', 'reconnected', 'sessionRestored']);
+
+    await manager.disconnect();
+  });
+
+  test('disconnect stops a running reconnect, also across a new connect', async () => {
+    const transport = new SimulatedG1Transport();
+    const manager = new EvenRealitiesG1Manager(transport, { reconnectBaseDelayMs: 50 });
+
+    await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+    transport.pair.right.dropConnection();
+    assert.equal(statusOf(manager), 'reconnecting');
+
+    await manager.disconnect();
+    await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+    assert.equal(statusOf(manager), 'ready');
+
+    const events: ConnectionEvent['type'][] = [];
+    manager.onConnectionEvent(event => events.push(event.type));
+    await sleep(300);
+
+    assert.deepEqual(events, []);
+    assert.equal(statusOf(manager), 'ready');
+    assert.equal(transport.pair.right.isConnected, true);
+
+    await manager.disconnect();
+  });
+
+  test('invalid state transitions throw a G1Error', () => {
+    const machine = new ConnectionStateMachine();
+
+    assert.throws(() => machine.transition({ status: 'ready' }), InvalidStateError);
+  });
+});
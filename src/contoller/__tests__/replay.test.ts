@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { EvenRealitiesG1Manager } from '../glasses2';
+import { logging } from '../logger';
+import { COMMANDS } from '../protocol';
+import { G1Recording, parseRecording, ReplayTransport, serializeRecording } from '../replay';
+import { SimulatedG1Transport } from '../simulator';
+
+logging.level = 'silent';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Connects, lets the device info queries settle, then shows a text. Run against the
+// simulator to record a session and against a ReplayTransport to play it back.
+async function runSession(manager: EvenRealitiesG1Manager, leftId: string, rightId: string): Promise<void> {
+  await manager.connectToGlasses(leftId, rightId);
+  await sleep(100);
+  await manager.display.sendText('Hello', 0, 0, false);
+}
+
+async function recordSession(): Promise<{ recording: G1Recording; jsonl: string }> {
+  const transport = new SimulatedG1Transport();
+  const manager = new EvenRealitiesG1Manager(transport, { reconnectAttempts: 0 });
+  manager.traffic.enabled = true;
+
+  await runSession(manager, transport.pair.left.id, transport.pair.right.id);
+  const recording = manager.captureSession();
+  const jsonl = manager.traffic.toJsonl();
+  await manager.disconnect();
+  return { recording, jsonl };
+}
+
+async function replay(recording: G1Recording, session: typeof runSession, txTimeoutMs?: number) {
+  const transport = new ReplayTransport(recording, { speed: Infinity, txTimeoutMs });
+  const manager = new EvenRealitiesG1Manager(transport, { reconnectAttempts: 0 });
+
+  await session(manager, transport.armId('left'), transport.armId('right'));
+  const result = await transport.done();
+  await manager.disconnect();
+  return { transport, result };
+}
+
+describe('ReplayTransport', () => {
+  test('replays a recorded simulator session', async () => {
+    const { recording } = await recordSession();
+
+    const { transport, result } = await replay(parseRecording(serializeRecording(recording)), runSession);
+
+    await transport.assertMatches();
+    assert.ok(result.written > 0);
+    assert.ok(result.delivered > 0);
+  });
+
+  test('reports a TX frame that differs from the recording', async () => {
+    const { recording } = await recordSession();
+    const text = recording.frames.find(f => f.direction === 'tx' && f.side === 'left' && f.frame[0] === COMMANDS.SEND_TEXT)!;
+    text.frame = text.frame.slice();
+    text.frame[text.frame.length - 1] ^= 0xFF;
+
+    const { transport, result } = await replay(recording, runSession);
+
+    assert.equal(result.mismatches.length, 1);
+    assert.equal(result.mismatches[0].side, 'left');
+    assert.deepEqual(result.mismatches[0].expected, text.frame);
+    await assert.rejects(transport.assertMatches(), /does not match the recording/);
+  });
+
+  test('stops early when the manager does not write what was recorded', async () => {
+    const { recording } = await recordSession();
+
+    const { result } = await replay(recording, async (manager, leftId, rightId) => {
+      await manager.connectToGlasses(leftId, rightId);
+    }, 200);
+
+    assert.match(result.stoppedEarly ?? '', /^Stalled/);
+    assert.ok(result.mismatches.some(mismatch => mismatch.actual === null));
+  });
+});
+
+describe('parseRecording', () => {
+  test('reads TrafficRecorder.toJsonl() exports', async () => {
+    const { recording, jsonl } = await recordSession();
+
+    const parsed = parseRecording(jsonl);
+
+    assert.equal(parsed.arms.left.id, 'replay-left');
+    assert.deepEqual(parsed.frames, recording.frames);
+  });
+
+  test('names the line that is not valid JSON', () => {
+    assert.throws(() => parseRecording('{"arms":{}}\n{"at":0,'), /Line 2 of the recording is not valid JSON/);
+  });
+});
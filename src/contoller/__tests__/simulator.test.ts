@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+
+import { BITMAP_HEIGHT, BITMAP_WIDTH, decodeCommand, LINE_HEIGHT, NotificationData, WeatherData } from '../codec';
+import { InvalidArgumentError, NackedError } from '../errors';
+import { EvenRealitiesG1Manager } from '../glasses2';
+import { logging } from '../logger';
+import { COMMANDS, SCREEN_STATUS } from '../protocol';
+import { SimulatedG1Transport } from '../simulator';
+
+logging.level = 'silent';
+
+const NOTIFICATION: NotificationData = {
+  msg_id: 1,
+  action: 0,
+  app_identifier: 'com.example.chat',
+  title: 'Title',
+  message: 'Message',
+  time_s: 0,
+  date: '2024-12-28 20:20:45',
+  display_name: 'Chat'
+};
+
+const WEATHER: WeatherData = { icon: 0x01, temperature: 21, isCelsius: true, is24Hour: true };
+
+describe('EvenRealitiesG1Manager on SimulatedG1Transport', () => {
+  let transport: SimulatedG1Transport;
+  let manager: EvenRealitiesG1Manager;
+
+  beforeEach(async () => {
+    transport = new SimulatedG1Transport();
+    manager = new EvenRealitiesG1Manager(transport, { reconnectAttempts: 0 });
+    await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('sendText shows the text on both arms', async () => {
+    await manager.display.sendText('Hello', 0, 0, false);
+
+    for (const arm of [transport.pair.left, transport.pair.right]) {
+      assert.equal(arm.screen.kind, 'text');
+      assert.equal(arm.screen.kind === 'text' && arm.screen.text, 'Hello');
+    }
+  });
+
+  test('sendText sends only the screen that fits', async () => {
+    const text = Array.from({ length: 8 }, (_, i) => `Line ${i + 1}`).join('\n');
+
+    await manager.display.sendText(text, 0, LINE_HEIGHT * 3, false);
+
+    const screen = transport.pair.left.screen;
+    assert.equal(screen.kind, 'text');
+    assert.equal(screen.kind === 'text' && screen.text, '\n\n\nLine 1\nLine 2');
+    assert.equal(screen.kind === 'text' && screen.maxPages, 1);
+    assert.equal(transport.pair.left.received.filter(frame => frame[0] === COMMANDS.SEND_TEXT).length, 1);
+  });
+
+  test('sendBMPImage uploads the bitmap to both arms', async () => {
+    const data = new Uint8Array(1000).map((_, i) => i % 256);
+
+    assert.equal(await manager.display.sendBMPImage({ width: BITMAP_WIDTH, height: BITMAP_HEIGHT, data }), true);
+
+    for (const arm of [transport.pair.left, transport.pair.right]) {
+      assert.equal(arm.screen.kind, 'bitmap');
+      assert.deepEqual(arm.screen.kind === 'bitmap' && arm.screen.data, data);
+    }
+  });
+
+  test('sendBMPImage rejects an image of the wrong size', async () => {
+    const image = { width: BITMAP_WIDTH / 2, height: BITMAP_HEIGHT, data: new Uint8Array(10) };
+
+    await assert.rejects(manager.display.sendBMPImage(image), InvalidArgumentError);
+  });
+
+  test('showImage throws when an arm rejects the display command', async () => {
+    const image = { width: BITMAP_WIDTH, height: BITMAP_HEIGHT, data: new Uint8Array(1000) };
+    for (let attempt = 0; attempt < 3; attempt++) {
+      transport.pair.right.nackNext(COMMANDS.SEND_BITMAP);
+    }
+
+    await assert.rejects(manager.display.showImage(image), NackedError);
+  });
+
+  test('sendAIResponse pages a long answer and ends on the last page', async () => {
+    const text = Array.from({ length: 8 }, (_, i) => `Line ${i + 1}`).join('\n');
+
+    await manager.ai.sendAIResponse({ text });
+
+    const screen = transport.pair.right.screen;
+    assert.equal(screen.kind, 'text');
+    assert.equal(screen.kind === 'text' && screen.text, 'Line 6\nLine 7\nLine 8');
+    assert.equal(screen.kind === 'text' && screen.currentPage, 2);
+    assert.equal(screen.kind === 'text' && screen.maxPages, 2);
+    assert.equal(screen.kind === 'text' && screen.status, SCREEN_STATUS.NEW_CONTENT | SCREEN_STATUS.EVEN_AI_COMPLETE);
+  });
+
+  test('reports device info when it is read and when it is cleared', async () => {
+    const infos: (string | null)[] = [];
+    manager.onDeviceInfoChange(info => infos.push(info ? info.serial : null));
+
+    const info = await manager.refreshDeviceInfo();
+    await manager.disconnect();
+
+    // The read started by connectToGlasses may land first
+    assert.deepEqual(infos.slice(-2), [info.serial, null]);
+  });
+
+  test('setTimeAndWeather sends the current time and the weather to both arms', async () => {
+    const before = Date.now();
+    await manager.dashboard.setTimeAndWeather(WEATHER);
+
+    for (const arm of [transport.pair.left, transport.pair.right]) {
+      const frames = arm.received.filter(frame => frame[0] === COMMANDS.SET_DASHBOARD);
+      assert.equal(frames.length, 1);
+      assert.equal(frames[0][1], frames[0].length);
+
+      const message = decodeCommand(frames[0]);
+      assert.equal(message.command === 'SET_DASHBOARD' && message.setting.kind, 'timeAndWeather');
+      if (message.command === 'SET_DASHBOARD' && message.setting.kind === 'timeAndWeather') {
+        assert.deepEqual(message.setting.weather, WEATHER);
+        assert.ok(message.setting.timestamp >= before && message.setting.timestamp <= Date.now());
+      }
+    }
+  });
+
+  test('setTimeAndWeather rejects a temperature the frame cannot carry and sends nothing', async () => {
+    await assert.rejects(manager.dashboard.setTimeAndWeather({ ...WEATHER, temperature: 200 }), InvalidArgumentError);
+
+    assert.equal(transport.pair.left.received.filter(frame => frame[0] === COMMANDS.SET_DASHBOARD).length, 0);
+  });
+
+  test('setTimeAndWeather throws when an arm keeps rejecting it', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      transport.pair.left.nackNext(COMMANDS.SET_DASHBOARD);
+    }
+
+    await assert.rejects(manager.dashboard.setTimeAndWeather(WEATHER), NackedError);
+  });
+
+  test('sendNotification reaches the left arm only', async () => {
+    await manager.notifications.sendNotification(NOTIFICATION);
+
+    assert.equal(transport.pair.left.notifications.length, 1);
+    assert.equal(transport.pair.right.notifications.length, 0);
+  });
+
+  test('sendNotification throws when the arm keeps rejecting it', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      transport.pair.left.nackNext(COMMANDS.SEND_NOTIFICATION);
+    }
+
+    await assert.rejects(manager.notifications.sendNotification(NOTIFICATION), NackedError);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { DISPLAY_WIDTH, LINE_HEIGHT, LINES_PER_SCREEN } from '../codec';
+import { composeRegions, graphemes, layoutText, measureText, sanitizeText } from '../textLayout';
+
+describe('layoutText', () => {
+  test('measures with the Helvetica-derived advance widths', () => {
+    assert.equal(measureText('W'), 20);
+    assert.equal(measureText('i'), 5);
+    assert.equal(measureText('Hello, world!'), 118);
+  });
+
+  test('breaks lines where the glyph widths run out of display width', () => {
+    assert.deepEqual(layoutText('W'.repeat(25)), ['W'.repeat(24), 'W']);
+    assert.deepEqual(layoutText('i'.repeat(98)), ['i'.repeat(97), 'i']);
+    assert.deepEqual(layoutText('The quick brown fox jumps over the lazy dog while the glasses show every word of this sentence'), [
+      'The quick brown fox jumps over the lazy dog while',
+      'the glasses show every word of this sentence'
+    ]);
+  });
+
+  test('keeps every line within the display width', () => {
+    const lines = layoutText('Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(8));
+
+    assert.ok(lines.every(line => measureText(line) <= DISPLAY_WIDTH));
+  });
+});
+
+describe('sanitizeText', () => {
+  test('keeps what the font can draw', () => {
+    assert.equal(sanitizeText('Perché è così? ┌─┐ 你好'), 'Perché è così? ┌─┐ 你好');
+  });
+
+  test('transliterates what the font lacks', () => {
+    assert.equal(sanitizeText('Привет, Щука'), 'Privet, Shchuka');
+    assert.equal(sanitizeText('a → b ✓'), 'a -> b v');
+    assert.equal(sanitizeText('Pinyin ǎ ṅ'), 'Pinyin a n');
+  });
+
+  test('composes decomposed accents before checking the font', () => {
+    assert.equal(sanitizeText('e\u0301'), 'é');
+  });
+
+  test('uses the configured fallback', () => {
+    assert.equal(sanitizeText('Hi 🙂'), 'Hi ?');
+    assert.equal(sanitizeText('Hi 🙂', { fallback: '' }), 'Hi ');
+    assert.equal(sanitizeText('Да', { transliterate: false, fallback: '*' }), '**');
+  });
+
+  test('replaces a whole grapheme cluster with one fallback', () => {
+    assert.equal(sanitizeText('👩‍💻 👍🏽 🇮🇹', { fallback: '#' }), '# # #');
+  });
+});
+
+describe('graphemes', () => {
+  test('keeps joined emoji, combining marks, skin tones and flags together', () => {
+    assert.deepEqual(graphemes('👨‍👩‍👧a\u0332👍🏽🇮🇹🇫🇷'), ['👨‍👩‍👧', 'a\u0332', '👍🏽', '🇮🇹', '🇫🇷']);
+  });
+
+  test('are not wrapped apart', () => {
+    const lines = layoutText('👩‍💻'.repeat(60), { fallback: 'W' });
+
+    assert.equal(lines.join(''), 'W'.repeat(60));
+    assert.equal(measureText('e\u0301'.repeat(10)), measureText('e'.repeat(10)));
+    assert.equal(measureText('👨‍👩‍👧'), measureText('你'));
+  });
+});
+
+describe('composeRegions', () => {
+  test('puts a region on the row its y falls in', () => {
+    assert.deepEqual(composeRegions([{ text: 'A', x: 0, y: LINE_HEIGHT * 2 - 1 }]), ['', 'A']);
+    assert.deepEqual(composeRegions([{ text: 'A', x: 0, y: LINE_HEIGHT * 2 }]), ['', '', 'A']);
+  });
+
+  test('draws a region near the bottom edge on the last row', () => {
+    const lines = composeRegions([{ text: 'Bottom', x: 0, y: LINES_PER_SCREEN * LINE_HEIGHT - 5 }]);
+
+    assert.equal(lines.length, LINES_PER_SCREEN);
+    assert.equal(lines[LINES_PER_SCREEN - 1], 'Bottom');
+  });
+
+  test('rejects a region below the text area', () => {
+    assert.throws(() => composeRegions([{ text: 'A', x: 0, y: LINES_PER_SCREEN * LINE_HEIGHT }]), /outside/);
+  });
+});
@@ -0,0 +1,106 @@
+// Matches outbound commands to the arm's reply.
+// Replies carry the command byte first and the RESPONSE status second; sequenced
+// commands (see SEQUENCE_OFFSET) also echo their sequence number, which is used
+// to tell apart several in-flight commands with the same command byte.
+
+import { commandSequence, repliedCommand, RESPONSE, responseSequence } from './protocol';
+import { ArmSide } from './transport';
+
+export type CommandStatus = 'acked' | 'nacked' | 'timeout';
+
+export interface CommandResult {
+  side: ArmSide;
+  command: number;
+  status: CommandStatus;
+  attempts: number;
+  response?: Uint8Array;
+  latencyMs?: number; // From the last write to its reply; absent on timeout
+}
+
+export interface AckOptions {
+  timeoutMs?: number; // Time to wait for the reply to each attempt
+  retries?: number; // Extra attempts after a 0xCA reply
+}
+
+export interface PendingReply {
+  reply: Promise<{ status: CommandStatus; response?: Uint8Array }>;
+  cancel(): void;
+}
+
+interface PendingCommand {
+  side: ArmSide;
+  command: number;
+  sequence?: number;
+  timeoutMs: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (reply: { status: CommandStatus; response?: Uint8Array }) => void;
+}
+
+export class AckTracker {
+  private pending: PendingCommand[] = [];
+
+  // Registers a command before it is written. The reply resolves once the arm
+  // answers or the timeout expires; cancel() drops it if the write itself failed.
+  expect(side: ArmSide, frame: Uint8Array, timeoutMs: number): PendingReply {
+    let entry!: PendingCommand;
+    const reply = new Promise<{ status: CommandStatus; response?: Uint8Array }>((resolve) => {
+      entry = {
+        side,
+        command: frame[0],
+        sequence: commandSequence(frame),
+        timeoutMs,
+        timer: setTimeout(() => this.settle(entry, 'timeout'), timeoutMs),
+        resolve
+      };
+      this.pending.push(entry);
+    });
+
+    return {
+      reply,
+      cancel: () => this.settle(entry, 'timeout')
+    };
+  }
+
+  // Returns true when the frame answered a pending command
+  handleResponse(side: ArmSide, frame: Uint8Array): boolean {
+    const sequence = responseSequence(frame);
+    const entry = this.pending.find(p =>
+      p.side === side &&
+      p.command === repliedCommand(frame) &&
+      (p.sequence === undefined || sequence === undefined || p.sequence === sequence)
+    );
+    if (!entry) return false;
+
+    switch (frame[1]) {
+      case RESPONSE.CONTINUE:
+        // The arm is still working on it, restart the timeout
+        clearTimeout(entry.timer);
+        entry.timer = setTimeout(() => this.settle(entry, 'timeout'), entry.timeoutMs);
+        break;
+      case RESPONSE.FAILURE:
+        this.settle(entry, 'nacked', frame);
+        break;
+      default:
+        // 0xC9, or a data reply to a query such as GET_BATTERY
+        this.settle(entry, 'acked', frame);
+    }
+    return true;
+  }
+
+  // Resolves everything still waiting on this arm (or both) as timed out
+  cancelAll(side?: ArmSide): void {
+    this.pending
+      .filter(p => side === undefined || p.side === side)
+      .forEach(p => this.settle(p, 'timeout'));
+  }
+
+  private settle(entry: PendingCommand, status: CommandStatus, response?: Uint8Array): void {
+    clearTimeout(entry.timer);
+    this.pending = this.pending.filter(p => p !== entry);
+    entry.resolve({ status, response });
+  }
+}
+
+export function allAcked(results: CommandResult[]): boolean {
+  return results.length > 0 && results.every(r => r.status === 'acked');
+}
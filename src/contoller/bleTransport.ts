@@ -0,0 +1,173 @@
+import { BleError, BleErrorCode, BleManager, Characteristic, Device } from 'react-native-ble-plx';
+import { BluetoothOffError, PermissionDeniedError, TimeoutError, UartNotFoundError } from './errors';
+import { NORDIC_UART_RX, NORDIC_UART_SERVICE, NORDIC_UART_TX } from './protocol';
+import { G1Link, G1Transport, ScannedDevice, TransportState, TransportSubscription } from './transport';
+
+// G1Transport backed by react-native-ble-plx
+export class BlePlxTransport implements G1Transport {
+  private bleManager: BleManager;
+
+  constructor(bleManager: BleManager = new BleManager()) {
+    this.bleManager = bleManager;
+  }
+
+  async state(): Promise<TransportState> {
+    return await this.bleManager.state();
+  }
+
+  onStateChange(listener: (state: TransportState) => void): TransportSubscription {
+    return this.bleManager.onStateChange(listener);
+  }
+
+  startScan(onDevice: (device: ScannedDevice) => void, onError: (error: Error) => void): void {
+    this.bleManager.startDeviceScan(null, null, (error, device) => {
+      if (error) {
+        onError(toG1Error(error));
+        return;
+      }
+
+      if (device) {
+        onDevice({ id: device.id, name: device.name, rssi: device.rssi });
+      }
+    });
+  }
+
+  stopScan(): void {
+    this.bleManager.stopDeviceScan();
+  }
+
+  async connect(deviceId: string, timeoutMs?: number): Promise<G1Link> {
+    // The native timeout is Android only; cancelling the attempt covers iOS as well
+    let timedOut = false;
+    const timer = timeoutMs !== undefined
+      ? setTimeout(() => {
+        timedOut = true;
+        this.bleManager.cancelDeviceConnection(deviceId).catch(() => {});
+      }, timeoutMs)
+      : null;
+
+    let device: Device;
+    try {
+      device = await this.bleManager.connectToDevice(deviceId, { timeout: timeoutMs });
+    } catch (error) {
+      throw timedOut
+        ? new TimeoutError(`Connecting to ${deviceId} timed out after ${timeoutMs} ms. Check that the glasses are charged and in range.`)
+        : toG1Error(error as Error);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+    await device.discoverAllServicesAndCharacteristics();
+    return new BlePlxLink(device);
+  }
+}
+
+class BlePlxLink implements G1Link {
+  private device: Device;
+  private txCharacteristic: Characteristic | null = null;
+
+  constructor(device: Device) {
+    this.device = device;
+  }
+
+  get id(): string {
+    return this.device.id;
+  }
+
+  get name(): string | null {
+    return this.device.name;
+  }
+
+  async discoverUart(): Promise<void> {
+    const services = await this.device.services();
+    const uartService = services.find(s => s.uuid.toLowerCase() === NORDIC_UART_SERVICE.toLowerCase());
+
+    if (!uartService) {
+      throw new UartNotFoundError('The device has no Nordic UART service. Make sure it is a G1 arm.');
+    }
+
+    const characteristics = await uartService.characteristics();
+    this.txCharacteristic = characteristics.find(c => c.uuid.toLowerCase() === NORDIC_UART_TX.toLowerCase()) || null;
+
+    if (!this.txCharacteristic) {
+      throw new UartNotFoundError('The device has no UART TX characteristic. Make sure it is a G1 arm.');
+    }
+  }
+
+  // iOS negotiates the MTU on its own; requestMTU then just reports the current value
+  async requestMtu(mtu: number): Promise<number> {
+    const device = await this.device.requestMTU(mtu);
+    return device.mtu;
+  }
+
+  async readRssi(): Promise<number | null> {
+    const device = await this.device.readRSSI();
+    return device.rssi;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.txCharacteristic) {
+      throw new UartNotFoundError('The UART has not been discovered yet. Connect before writing.');
+    }
+    await this.txCharacteristic.writeWithResponse(uint8ArrayToBase64(data));
+  }
+
+  monitor(onData: (data: Uint8Array) => void, onError: (error: Error) => void): TransportSubscription {
+    return this.device.monitorCharacteristicForService(
+      NORDIC_UART_SERVICE,
+      NORDIC_UART_RX,
+      (error, characteristic) => {
+        if (error) {
+          onError(error);
+          return;
+        }
+        if (characteristic?.value) {
+          onData(base64ToUint8Array(characteristic.value));
+        }
+      }
+    );
+  }
+
+  onDisconnected(listener: (error: Error | null) => void): TransportSubscription {
+    return this.device.onDisconnected((error) => listener(error));
+  }
+
+  async disconnect(): Promise<void> {
+    await this.device.cancelConnection();
+  }
+}
+
+// Native errors the app can act on become G1Errors; anything else is passed through
+function toG1Error(error: Error): Error {
+  if (!(error instanceof BleError)) return error;
+
+  switch (error.errorCode) {
+    case BleErrorCode.BluetoothPoweredOff:
+      return new BluetoothOffError('PoweredOff');
+    case BleErrorCode.BluetoothUnsupported:
+      return new BluetoothOffError('Unsupported');
+    case BleErrorCode.BluetoothUnauthorized:
+      return new PermissionDeniedError();
+    case BleErrorCode.OperationTimedOut:
+      return new TimeoutError(error.message);
+    default:
+      return error;
+  }
+}
+
+// Utility methods
+function base64ToUint8Array(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binaryString);
+}
@@ -0,0 +1,80 @@
+import { Linking, Platform } from 'react-native';
+import {
+  checkMultiple,
+  openSettings,
+  Permission,
+  PERMISSIONS,
+  PermissionStatus,
+  requestMultiple,
+  RESULTS
+} from 'react-native-permissions';
+import { BluetoothPermissions, PermissionState } from './bluetoothReadiness';
+import { createLogger } from './logger';
+
+const log = createLogger('core');
+
+// Android 12 (API 31) split Bluetooth out of the location permission
+const ANDROID_BLUETOOTH_PERMISSIONS_API = 31;
+
+// BluetoothPermissions backed by react-native-permissions. Their calls reject when the
+// native handler is missing (on iOS, when setup_permissions does not list Bluetooth); a
+// failed check reads as unknown and a failed request as blocked, so readiness still settles.
+export class NativeBluetoothPermissions implements BluetoothPermissions {
+  readonly canOpenBluetoothSettings = Platform.OS === 'android';
+
+  async check(): Promise<PermissionState> {
+    const permissions = requiredPermissions();
+    if (permissions.length === 0) return 'unavailable';
+
+    try {
+      return combine(Object.values(await checkMultiple(permissions)));
+    } catch (error) {
+      log.warn('Could not check the Bluetooth permissions:', error);
+      return 'unknown';
+    }
+  }
+
+  async request(): Promise<PermissionState> {
+    const permissions = requiredPermissions();
+    if (permissions.length === 0) return 'unavailable';
+
+    try {
+      return combine(Object.values(await requestMultiple(permissions)));
+    } catch (error) {
+      log.warn('Could not request the Bluetooth permissions:', error);
+      return 'blocked';
+    }
+  }
+
+  async openAppSettings(): Promise<void> {
+    await openSettings();
+  }
+
+  async openBluetoothSettings(): Promise<void> {
+    if (!this.canOpenBluetoothSettings) {
+      throw new Error('Only Android can open the Bluetooth settings');
+    }
+    await Linking.sendIntent('android.settings.BLUETOOTH_SETTINGS');
+  }
+}
+
+function requiredPermissions(): Permission[] {
+  switch (Platform.OS) {
+    case 'ios':
+      return [PERMISSIONS.IOS.BLUETOOTH];
+    case 'android':
+      return Number(Platform.Version) >= ANDROID_BLUETOOTH_PERMISSIONS_API
+        ? [PERMISSIONS.ANDROID.BLUETOOTH_SCAN, PERMISSIONS.ANDROID.BLUETOOTH_CONNECT]
+        : [PERMISSIONS.ANDROID.ACCESS_FINE_LOCATION];
+    default:
+      return [];
+  }
+}
+
+// The least permissive of the statuses wins
+function combine(statuses: PermissionStatus[]): PermissionState {
+  if (statuses.includes(RESULTS.UNAVAILABLE)) return 'unavailable';
+  if (statuses.includes(RESULTS.BLOCKED)) return 'blocked';
+  if (statuses.includes(RESULTS.DENIED)) return 'denied';
+  return 'granted'; // granted or limited
+}
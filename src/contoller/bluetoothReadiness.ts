@@ -0,0 +1,206 @@
+// Whether the app can use Bluetooth right now, and what the user can do about it when not.
+//
+// Two things have to line up: the runtime permissions (BLUETOOTH_SCAN and BLUETOOTH_CONNECT
+// on Android 12+, location on older Android, Bluetooth authorization on iOS) and the adapter
+// state reported by the transport. Permissions sit behind BluetoothPermissions so this file
+// stays free of native modules; NativeBluetoothPermissions in bluetoothPermissions.ts is the
+// react-native-permissions implementation.
+
+import { BluetoothOffError, G1Error, PermissionDeniedError } from './errors';
+import { createLogger } from './logger';
+import { G1Transport, TransportState, TransportSubscription } from './transport';
+
+const log = createLogger('core');
+
+// denied can still be asked for; blocked only changes in the system settings;
+// unavailable means the platform has no Bluetooth at all; unknown means the check itself failed
+export type PermissionState = 'granted' | 'denied' | 'blocked' | 'unavailable' | 'unknown';
+
+export interface BluetoothPermissions {
+  check(): Promise<PermissionState>;
+
+  // Shows the system prompt where the platform still allows it
+  request(): Promise<PermissionState>;
+
+  openAppSettings(): Promise<void>;
+
+  // Only Android lets apps open the Bluetooth settings page
+  readonly canOpenBluetoothSettings: boolean;
+  openBluetoothSettings(): Promise<void>;
+}
+
+export type BluetoothReadinessStatus =
+  | 'checking'
+  | 'ready'
+  | 'permissionRequired' // Not granted yet, the prompt can still be shown
+  | 'unauthorized' // Denied for good, or Bluetooth use is restricted on the device
+  | 'poweredOff'
+  | 'unsupported'
+  | 'unknown'; // The permission could not be checked, or the adapter did not report a state in time
+
+export type RecoveryAction = 'requestPermission' | 'openAppSettings' | 'openBluetoothSettings' | 'retry';
+
+export interface BluetoothReadiness {
+  status: BluetoothReadinessStatus;
+  actions: RecoveryAction[]; // What the user can do about it, most useful first
+  error: G1Error | null; // Null while ready or checking
+}
+
+export interface BluetoothReadinessOptions {
+  stateTimeoutMs?: number; // How long an Unknown adapter state is waited out
+}
+
+const CHECKING: BluetoothReadiness = { status: 'checking', actions: [], error: null };
+
+// Resolves with the first state other than Unknown, or with Unknown once timeoutMs passes.
+// The adapter reports Unknown while it starts up, and on some devices never reports anything else.
+export async function waitForBluetoothState(transport: G1Transport, timeoutMs: number): Promise<TransportState> {
+  const state = await transport.state();
+  if (state !== 'Unknown') {
+    return state;
+  }
+
+  return new Promise<TransportState>((resolve) => {
+    const timer = setTimeout(() => {
+      subscription.remove();
+      resolve('Unknown');
+    }, timeoutMs);
+    const subscription = transport.onStateChange((newState) => {
+      if (newState === 'Unknown') return;
+      clearTimeout(timer);
+      subscription.remove();
+      resolve(newState);
+    });
+  });
+}
+
+// Shared by every screen: each one subscribes with onChange, and adapter state changes
+// are followed for as long as anyone is listening
+export class BluetoothReadinessService {
+  private transport: G1Transport;
+  private permissions: BluetoothPermissions;
+  private stateTimeoutMs: number;
+  private readiness: BluetoothReadiness = CHECKING;
+  private revision = 0;
+  private stateSubscription: TransportSubscription | null = null;
+  private onChangeCallbacks: ((readiness: BluetoothReadiness) => void)[] = [];
+
+  constructor(transport: G1Transport, permissions: BluetoothPermissions, options: BluetoothReadinessOptions = {}) {
+    this.transport = transport;
+    this.permissions = permissions;
+    this.stateTimeoutMs = options.stateTimeoutMs ?? 5000;
+  }
+
+  get current(): BluetoothReadiness {
+    return this.readiness;
+  }
+
+  // Returns a function that removes the callback
+  onChange(callback: (readiness: BluetoothReadiness) => void): () => void {
+    this.onChangeCallbacks.push(callback);
+    if (!this.stateSubscription) {
+      this.stateSubscription = this.transport.onStateChange(() => {
+        this.refresh().catch(error => log.error('Bluetooth readiness check failed:', error));
+      });
+    }
+
+    return () => {
+      this.onChangeCallbacks = this.onChangeCallbacks.filter(c => c !== callback);
+      if (this.onChangeCallbacks.length === 0) {
+        this.stateSubscription?.remove();
+        this.stateSubscription = null;
+      }
+    };
+  }
+
+  // Checks permissions, then the adapter state. Does not prompt.
+  async refresh(): Promise<BluetoothReadiness> {
+    const revision = ++this.revision;
+    const permission = await this.permissions.check();
+    const state = permission === 'granted' ? await waitForBluetoothState(this.transport, this.stateTimeoutMs) : null;
+
+    // A newer check started meanwhile; its result wins
+    if (revision !== this.revision) return this.readiness;
+
+    this.update(this.evaluate(permission, state));
+    return this.readiness;
+  }
+
+  async requestPermission(): Promise<BluetoothReadiness> {
+    await this.permissions.request();
+    return await this.refresh();
+  }
+
+  // Runs one of the actions offered in current.actions. The settings pages are left
+  // for the user; the state change they cause is picked up by onChange listeners.
+  async perform(action: RecoveryAction): Promise<BluetoothReadiness> {
+    switch (action) {
+      case 'requestPermission':
+        return await this.requestPermission();
+      case 'openAppSettings':
+        await this.permissions.openAppSettings();
+        return this.readiness;
+      case 'openBluetoothSettings':
+        await this.permissions.openBluetoothSettings();
+        return this.readiness;
+      case 'retry':
+        return await this.refresh();
+    }
+  }
+
+  // Prompts for permission if it has not been asked yet, and throws the G1Error
+  // describing what is still missing (PermissionDeniedError or BluetoothOffError)
+  async ensureReady(): Promise<void> {
+    let readiness = await this.refresh();
+    if (readiness.status === 'permissionRequired') {
+      readiness = await this.requestPermission();
+    }
+    if (readiness.error) {
+      throw readiness.error;
+    }
+  }
+
+  private evaluate(permission: PermissionState, state: TransportState | null): BluetoothReadiness {
+    if (permission === 'unavailable' || state === 'Unsupported') {
+      return { status: 'unsupported', actions: [], error: new BluetoothOffError('Unsupported') };
+    }
+    if (permission === 'blocked' || state === 'Unauthorized') {
+      return { status: 'unauthorized', actions: ['openAppSettings'], error: new PermissionDeniedError() };
+    }
+    if (permission === 'unknown') {
+      return {
+        status: 'unknown',
+        actions: ['retry'],
+        error: new PermissionDeniedError('The Bluetooth permission could not be checked. Try again.')
+      };
+    }
+    if (permission === 'denied') {
+      return {
+        status: 'permissionRequired',
+        actions: ['requestPermission'],
+        error: new PermissionDeniedError('Bluetooth permission is needed to find and connect to the glasses.')
+      };
+    }
+
+    switch (state) {
+      case 'PoweredOn':
+        return { status: 'ready', actions: [], error: null };
+      case 'PoweredOff':
+        return {
+          status: 'poweredOff',
+          actions: this.permissions.canOpenBluetoothSettings ? ['openBluetoothSettings'] : [],
+          error: new BluetoothOffError('PoweredOff')
+        };
+      default:
+        return { status: 'unknown', actions: ['retry'], error: new BluetoothOffError(state ?? 'Unknown') };
+    }
+  }
+
+  private update(readiness: BluetoothReadiness): void {
+    if (readiness.status !== this.readiness.status) {
+      log.info(`Bluetooth readiness: ${this.readiness.status} -> ${readiness.status}`);
+    }
+    this.readiness = readiness;
+    this.onChangeCallbacks.forEach(callback => callback(readiness));
+  }
+}
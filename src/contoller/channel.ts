@@ -0,0 +1,53 @@
+// Contract between the connection core and the feature services.
+// EvenRealitiesG1Manager implements G1CommandChannel; features only build frames
+// (with codec.ts) and push them through the channel, so they never touch links,
+// queues or acknowledgements directly.
+
+import { AckOptions, CommandResult } from './acks';
+import { CommandPriority } from './commandQueue';
+import { PacketSizes } from './protocol';
+import { TextLayoutOptions } from './textLayout';
+import { ArmSide } from './transport';
+
+export interface ArmTargets {
+  toLeft: boolean;
+  toRight: boolean;
+}
+
+export interface SendOptions extends AckOptions {
+  priority?: CommandPriority; // Defaults to a priority derived from the command byte
+  tag?: string; // Lets queued commands be cancelled as a group
+}
+
+export interface G1CommandChannel {
+  // True while at least one arm can take commands
+  readonly connected: boolean;
+
+  // Works out which arms a command goes to, throws when the needed arm is unavailable
+  route(target: ArmSide | 'both'): ArmTargets;
+
+  // Queues the frame on every targeted arm at once
+  send(frame: Uint8Array, targets: ArmTargets, options?: SendOptions): Promise<CommandResult[]>;
+
+  // Sends to the left arm first and to the right arm once the left has replied
+  sendSequentially(frame: Uint8Array, targets: ArmTargets, options?: SendOptions): Promise<CommandResult[]>;
+
+  cancelQueuedCommands(tag?: string): number;
+
+  // Largest frames that fit every targeted arm
+  packetSizes(targets: ArmTargets): PacketSizes;
+
+  // Fallback and transliteration for characters the G1 font cannot draw
+  readonly textLayout: TextLayoutOptions;
+
+  // Next value of the shared 8-bit sequence counter used by text and dashboard frames
+  nextSequence(): number;
+
+  // Every frame received from either arm
+  onFrame(listener: (frame: Uint8Array, side: ArmSide) => void): void;
+}
+
+export interface G1Feature {
+  // Replays whatever the feature last applied onto arms that have just reconnected
+  restore?(targets: ArmTargets): Promise<void>;
+}
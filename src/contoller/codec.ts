@@ -0,0 +1,836 @@
+// Frame encoding and decoding for the G1 protocol.
+// Pure functions only: no BLE, no timers and no state, so everything here can be
+// used from Node (the simulator checks bitmap CRCs with the same helpers).
+//
+// Every COMMANDS entry has a typed message. encodeCommand/decodeCommand cover the
+// frames the phone writes, encodeInbound/decodeInbound the reports the arms send
+// back. Both pairs round-trip, and out-of-range fields throw instead of being
+// truncated into the frame.
+
+import { InvalidArgumentError } from './errors';
+import { createLogger } from './logger';
+import {
+  BMP_STORAGE_ADDRESS,
+  COMMANDS,
+  FIRMWARE_INFO_PREFIX,
+  FIRMWARE_INFO_REPLY,
+  NOTIFICATION_HEADER_SIZE,
+  SCREEN_STATUS
+} from './protocol';
+
+const log = createLogger('codec');
+
+// Types
+export interface BatteryInfo {
+  percentage: number;
+  isCharging: boolean;
+  voltage?: number;
+}
+
+export interface NotificationData {
+  msg_id: number;
+  action: number;
+  app_identifier: string;
+  title: string;
+  subtitle?: string;
+  message: string;
+  time_s: number;
+  date: string;
+  display_name: string;
+}
+
+export interface NotificationApp {
+  id: string; // Bundle identifier, e.g. com.apple.MobileSMS
+  name: string;
+}
+
+export interface WeatherData {
+  icon: number; // 0-16, see protocol doc
+  temperature: number;
+  isCelsius: boolean;
+  is24Hour: boolean;
+}
+
+export interface AudioPacket {
+  sequence: number;
+  data: Uint8Array; // LC3 encoded
+}
+
+export interface TextPacketHeader {
+  sequence: number;
+  totalPackets: number;
+  currentPacket: number;
+  status: number; // SCREEN_STATUS flags
+  currentPage: number;
+  maxPages: number;
+  charPosition?: number; // Where newly appended characters start on the page, 0 for a full repaint
+}
+
+export type G1CommandName = keyof typeof COMMANDS;
+
+export const DASHBOARD_MODES = {
+  FULL: 0x00,
+  DUAL: 0x01,
+  MINIMAL: 0x02,
+} as const;
+
+export type DashboardSetting =
+  | { kind: 'timeAndWeather'; timestamp: number; weather: WeatherData } // timestamp in ms
+  | { kind: 'mode'; mode: number; secondaryPane: number }; // mode is one of DASHBOARD_MODES
+
+// Frames written by the phone, one message per frame. Payloads spread over several
+// frames (text, bitmaps, notification JSON) are split by the helpers further down.
+export type G1Command =
+  | { command: 'SET_BRIGHTNESS'; level: number; autoMode: boolean }
+  | { command: 'SET_SILENT_MODE'; enabled: boolean }
+  | { command: 'SET_NOTIFICATION_APPS'; totalChunks: number; chunkIndex: number; data: Uint8Array }
+  | { command: 'SET_DASHBOARD'; sequence: number; setting: DashboardSetting }
+  | { command: 'MICROPHONE_CONTROL'; enabled: boolean }
+  | { command: 'SEND_BITMAP'; index: number; data: Uint8Array }
+  | { command: 'CLEAR_SCREEN' }
+  | { command: 'SEND_QUICK_NOTE'; sequence: number; slot: number; title: string; text: string }
+  | { command: 'SEND_HARD_RESET' }
+  | { command: 'GET_FIRMWARE_INFO' }
+  | { command: 'SEND_HEARTBEAT'; sequence: number }
+  | { command: 'GET_BRIGHTNESS' }
+  | { command: 'GET_BATTERY' }
+  | { command: 'GET_SERIAL' }
+  | { command: 'SEND_UNPAIR' }
+  | { command: 'SEND_NOTIFICATION'; totalChunks: number; chunkIndex: number; data: Uint8Array }
+  | { command: 'CLEAR_NOTIFICATION'; msgId: number }
+  | { command: 'INIT' }
+  | ({ command: 'SEND_TEXT'; charPosition: number; data: Uint8Array } & TextPacketHeader)
+  | { command: 'SET_NOTIFICATION_AUTO_DISPLAY'; enabled: boolean; timeoutSeconds: number }
+  | { command: 'SEND_DASHBOARD_LOCK'; locked: boolean }
+  | { command: 'SET_DEBUG_MODE'; enabled: boolean }
+  | { command: 'BMP_TRANSMISSION_END' }
+  | { command: 'CRC_CHECK'; crc: number };
+
+// Frames sent by the arms that are more than a plain 0xC9/0xCA reply
+export type G1InboundMessage =
+  | { command: 'GET_BATTERY'; battery: BatteryInfo }
+  | { command: 'GET_BRIGHTNESS'; level: number; autoMode: boolean }
+  | { command: 'GET_SERIAL'; serial: string }
+  | { command: 'GET_FIRMWARE_INFO'; info: string } // The whole text, starting with FIRMWARE_INFO_PREFIX
+  | { command: 'GET_AUDIO_RECORDING'; sequence: number; data: Uint8Array }
+  | { command: 'DEVICE_EVENTS'; event: number; payload: Uint8Array };
+
+// Display geometry
+export const DISPLAY_WIDTH = 488; // Usable text width in pixels
+export const FONT_SIZE = 21;
+export const LINES_PER_SCREEN = 5;
+export const LINE_HEIGHT = 27; // Pixels per text row: the text area is BITMAP_HEIGHT tall
+export const BITMAP_WIDTH = 576;
+export const BITMAP_HEIGHT = 136;
+
+export const MAX_BRIGHTNESS = 0x2A;
+export const MAX_WEATHER_ICON = 0x10;
+export const QUICK_NOTE_SLOTS = 4;
+
+// Text (lines come from layoutText in textLayout.ts)
+export function splitIntoScreens(lines: string[], linesPerScreen: number = LINES_PER_SCREEN): string[][] {
+  const screens: string[][] = [];
+
+  for (let i = 0; i < lines.length; i += linesPerScreen) {
+    screens.push(lines.slice(i, i + linesPerScreen));
+  }
+
+  return screens;
+}
+
+// UTF-8 encodes the screen's lines and cuts them into pieces of at most chunkSize bytes.
+// Cuts only fall between code points: the arms decode each packet on its own, so a
+// character split across two packets would come out as garbage.
+export function createTextChunks(lines: string[], chunkSize: number): Uint8Array[] {
+  if (chunkSize < 4) {
+    throw new Error(`Text chunks must hold at least one UTF-8 character (4 bytes), got ${chunkSize}`);
+  }
+
+  const textBytes = new TextEncoder().encode(lines.join('\n'));
+  const chunks: Uint8Array[] = [];
+
+  for (let start = 0; start < textBytes.length;) {
+    let end = Math.min(start + chunkSize, textBytes.length);
+    while (end < textBytes.length && (textBytes[end] & 0xC0) === 0x80) {
+      end--; // Continuation byte: back up to the start of its character
+    }
+    chunks.push(textBytes.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+export function encodeTextPacket(header: TextPacketHeader, data: Uint8Array): Uint8Array {
+  return encodeCommand({ command: 'SEND_TEXT', ...header, charPosition: header.charPosition ?? 0, data });
+}
+
+export const NEW_TEXT_STATUS = SCREEN_STATUS.NEW_CONTENT | SCREEN_STATUS.TEXT_SHOW;
+
+// Bitmaps
+// Every chunk has the same size so the packet index maps straight to an offset;
+// chunkSize leaves room for the storage address carried by the first packet
+export function encodeBitmapPackets(data: Uint8Array, chunkSize: number): Uint8Array[] {
+  const packets: Uint8Array[] = [];
+
+  for (let i = 0; i < data.length; i += chunkSize) {
+    packets.push(encodeCommand({
+      command: 'SEND_BITMAP',
+      index: Math.floor(i / chunkSize) & 0xFF,
+      data: data.slice(i, i + chunkSize)
+    }));
+  }
+
+  return packets;
+}
+
+export function encodeBitmapEnd(): Uint8Array {
+  return encodeCommand({ command: 'BMP_TRANSMISSION_END' });
+}
+
+// The glasses check the CRC over the storage address followed by the bitmap bytes as sent
+export function bitmapCrc(data: Uint8Array): number {
+  const crcData = new Uint8Array(BMP_STORAGE_ADDRESS.length + data.length);
+  crcData.set(BMP_STORAGE_ADDRESS);
+  crcData.set(data, BMP_STORAGE_ADDRESS.length);
+  return crc32Xz(crcData);
+}
+
+export function encodeCrcCheck(crc: number): Uint8Array {
+  return encodeCommand({ command: 'CRC_CHECK', crc });
+}
+
+// CRC32-XZ (reflected, polynomial 0xEDB88320)
+export function crc32Xz(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+    }
+  }
+  return (~crc) >>> 0;
+}
+
+// Settings
+export function encodeBrightness(brightness: number, autoMode: boolean): Uint8Array {
+  return encodeCommand({ command: 'SET_BRIGHTNESS', level: brightness, autoMode });
+}
+
+export function encodeSilentMode(enabled: boolean): Uint8Array {
+  return encodeCommand({ command: 'SET_SILENT_MODE', enabled });
+}
+
+export function encodeMicrophone(enabled: boolean): Uint8Array {
+  return encodeCommand({ command: 'MICROPHONE_CONTROL', enabled });
+}
+
+export function encodeClearScreen(): Uint8Array {
+  return encodeCommand({ command: 'CLEAR_SCREEN' });
+}
+
+export function encodeBatteryRequest(): Uint8Array {
+  return encodeCommand({ command: 'GET_BATTERY' });
+}
+
+export function encodeInit(): Uint8Array {
+  return encodeCommand({ command: 'INIT' });
+}
+
+export function encodeHeartbeat(sequence: number): Uint8Array {
+  return encodeCommand({ command: 'SEND_HEARTBEAT', sequence });
+}
+
+// Notifications
+// The JSON goes out as a single chunk; NotificationService checks that it fits
+export function encodeNotification(notification: NotificationData): Uint8Array {
+  const data = new TextEncoder().encode(JSON.stringify({ ncs_notification: notification }));
+  return encodeCommand({ command: 'SEND_NOTIFICATION', totalChunks: 1, chunkIndex: 0, data });
+}
+
+export function encodeClearNotification(msgId: number): Uint8Array {
+  return encodeCommand({ command: 'CLEAR_NOTIFICATION', msgId });
+}
+
+// Apps whose notifications the glasses show, cut into chunkSize pieces of JSON
+export function encodeNotificationApps(apps: NotificationApp[], chunkSize: number): Uint8Array[] {
+  const json = new TextEncoder().encode(JSON.stringify({
+    calendar_enable: false,
+    call_enable: false,
+    msg_enable: false,
+    ios_mail_enable: false,
+    app: { list: apps, enable: true }
+  }));
+
+  const totalChunks = Math.ceil(json.length / chunkSize);
+  const packets: Uint8Array[] = [];
+  for (let i = 0; i < totalChunks; i++) {
+    packets.push(encodeCommand({
+      command: 'SET_NOTIFICATION_APPS',
+      totalChunks,
+      chunkIndex: i,
+      data: json.slice(i * chunkSize, (i + 1) * chunkSize)
+    }));
+  }
+  return packets;
+}
+
+// Dashboard
+export function encodeDashboardTimeAndWeather(sequence: number, weather: WeatherData, now: Date = new Date()): Uint8Array {
+  return encodeCommand({
+    command: 'SET_DASHBOARD',
+    sequence,
+    setting: { kind: 'timeAndWeather', timestamp: now.getTime(), weather }
+  });
+}
+
+// Outbound frames
+// Each codec writes and reads everything after the command byte
+interface MessageCodec<M> {
+  encode(message: M): number[];
+  decode(body: FrameReader): Omit<M, 'command'>;
+}
+
+type CommandCodecs = { [K in G1Command['command']]: MessageCodec<Extract<G1Command, { command: K }>> };
+type InboundCodecs = { [K in G1InboundMessage['command']]: MessageCodec<Extract<G1InboundMessage, { command: K }>> };
+
+const DASHBOARD_SUBCOMMANDS = {
+  TIME_AND_WEATHER: 0x01,
+  MODE: 0x06,
+} as const;
+
+const QUICK_NOTE_PREFIX = [0x03, 0x01, 0x00, 0x01, 0x00];
+
+const COMMAND_CODECS: CommandCodecs = {
+  // [0x01, level 0x00-0x2A, auto]
+  SET_BRIGHTNESS: {
+    encode: ({ level, autoMode }) => [checkRange('brightness', level, 0, MAX_BRIGHTNESS), flag(autoMode)],
+    decode: (body) => ({ level: body.byte('brightness', 0, MAX_BRIGHTNESS), autoMode: body.flag('auto brightness') })
+  },
+
+  // [0x03, 0x0C on / 0x0A off]
+  SET_SILENT_MODE: {
+    encode: ({ enabled }) => [enabled ? 0x0C : 0x0A],
+    decode: (body) => ({ enabled: body.choice('silent mode', { 0x0C: true, 0x0A: false }) })
+  },
+
+  // [0x04, chunk count, chunk index, ...json]
+  SET_NOTIFICATION_APPS: {
+    encode: ({ totalChunks, chunkIndex, data }) => [...chunkHeader(totalChunks, chunkIndex), ...data],
+    decode: (body) => ({ ...body.chunkHeader(), data: body.rest() })
+  },
+
+  // [0x06, frame length, 0x00, seq, subcommand, ...]
+  SET_DASHBOARD: {
+    encode: ({ sequence, setting }) => {
+      const body = setting.kind === 'timeAndWeather'
+        ? [DASHBOARD_SUBCOMMANDS.TIME_AND_WEATHER, ...encodeTimeAndWeather(setting.timestamp, setting.weather)]
+        : [
+          DASHBOARD_SUBCOMMANDS.MODE,
+          checkRange('dashboard mode', setting.mode, DASHBOARD_MODES.FULL, DASHBOARD_MODES.MINIMAL),
+          checkRange('secondary pane', setting.secondaryPane, 0, 0xFF)
+        ];
+      return [4 + body.length, 0x00, checkRange('sequence', sequence, 0, 0xFF), ...body];
+    },
+    decode: (body) => {
+      body.skip(2); // Frame length, pad
+      const sequence = body.byte('sequence');
+      const subcommand = body.byte('dashboard subcommand');
+
+      switch (subcommand) {
+        case DASHBOARD_SUBCOMMANDS.TIME_AND_WEATHER:
+          return { sequence, setting: decodeTimeAndWeather(body) };
+        case DASHBOARD_SUBCOMMANDS.MODE:
+          return {
+            sequence,
+            setting: {
+              kind: 'mode',
+              mode: body.byte('dashboard mode', DASHBOARD_MODES.FULL, DASHBOARD_MODES.MINIMAL),
+              secondaryPane: body.byte('secondary pane')
+            }
+          };
+        default:
+          throw new Error(`Unknown dashboard subcommand 0x${hex(subcommand)}`);
+      }
+    }
+  },
+
+  // [0x0E, enabled]
+  MICROPHONE_CONTROL: {
+    encode: ({ enabled }) => [flag(enabled)],
+    decode: (body) => ({ enabled: body.flag('microphone') })
+  },
+
+  // [0x15, index, (storage address on the first packet), ...data]
+  SEND_BITMAP: {
+    encode: ({ index, data }) => [
+      checkRange('bitmap packet index', index, 0, 0xFF),
+      ...(index === 0 ? BMP_STORAGE_ADDRESS : []),
+      ...data
+    ],
+    decode: (body) => {
+      const index = body.byte('bitmap packet index');
+      if (index === 0) {
+        const address = body.bytes('bitmap storage address', BMP_STORAGE_ADDRESS.length);
+        if (address.some((b, i) => b !== BMP_STORAGE_ADDRESS[i])) {
+          throw new Error(`Unexpected bitmap storage address ${Array.from(address).map(hex).join(' ')}`);
+        }
+      }
+      return { index, data: body.rest() };
+    }
+  },
+
+  // [0x18]
+  CLEAR_SCREEN: empty(),
+
+  // [0x1E, frame length, 0x00, seq, 0x03, 0x01, 0x00, 0x01, 0x00, slot, 0x01,
+  //  title length (16-bit LE), ...title, text length (16-bit LE), ...text]
+  SEND_QUICK_NOTE: {
+    encode: ({ sequence, slot, title, text }) => {
+      const titleBytes = new TextEncoder().encode(title);
+      const textBytes = new TextEncoder().encode(text);
+      const body = [
+        0x00,
+        checkRange('sequence', sequence, 0, 0xFF),
+        ...QUICK_NOTE_PREFIX,
+        checkRange('quick note slot', slot, 1, QUICK_NOTE_SLOTS),
+        0x01,
+        ...uint16LeToBytes(titleBytes.length), ...titleBytes,
+        ...uint16LeToBytes(textBytes.length), ...textBytes
+      ];
+      return [checkRange('quick note frame length', 2 + body.length, 0, 0xFF), ...body];
+    },
+    decode: (body) => {
+      body.skip(2); // Frame length, pad
+      const sequence = body.byte('sequence');
+      body.skip(QUICK_NOTE_PREFIX.length);
+      const slot = body.byte('quick note slot', 1, QUICK_NOTE_SLOTS);
+      body.skip(1);
+      const title = new TextDecoder().decode(body.bytes('quick note title', body.uint16Le('quick note title length')));
+      const text = new TextDecoder().decode(body.bytes('quick note text', body.uint16Le('quick note text length')));
+      return { sequence, slot, title, text };
+    }
+  },
+
+  // [0x23, 0x72]
+  SEND_HARD_RESET: empty([0x72]),
+
+  // [0x23, 0x74]
+  GET_FIRMWARE_INFO: empty([0x74]),
+
+  // [0x25, seq]
+  SEND_HEARTBEAT: {
+    encode: ({ sequence }) => [checkRange('sequence', sequence, 0, 0xFF)],
+    decode: (body) => ({ sequence: body.byte('sequence') })
+  },
+
+  // [0x29]
+  GET_BRIGHTNESS: empty(),
+
+  // [0x2C, 0x01]
+  GET_BATTERY: empty([0x01]),
+
+  // [0x33]
+  GET_SERIAL: empty(),
+
+  // [0x47]
+  SEND_UNPAIR: empty(),
+
+  // [0x4B, pad, chunk count, chunk index, ...json]
+  SEND_NOTIFICATION: {
+    encode: ({ totalChunks, chunkIndex, data }) => [0x00, ...chunkHeader(totalChunks, chunkIndex), ...data],
+    decode: (body) => {
+      body.skip(NOTIFICATION_HEADER_SIZE - 3); // Pad
+      return { ...body.chunkHeader(), data: body.rest() };
+    }
+  },
+
+  // [0x4C, msg_id (32-bit BE)]
+  CLEAR_NOTIFICATION: {
+    encode: ({ msgId }) => uint32ToBytes(checkRange('notification id', msgId, 0, 0xFFFFFFFF)),
+    decode: (body) => ({ msgId: body.uint32('notification id') })
+  },
+
+  // [0x4D, 0xFB]
+  INIT: empty([0xFB]),
+
+  // [0x4E, seq, totalPackets, currentPacket, status, new_char_pos0, new_char_pos1, currentPage, maxPages, ...text]
+  SEND_TEXT: {
+    encode: (message) => [
+      checkRange('sequence', message.sequence, 0, 0xFF),
+      ...chunkHeader(message.totalPackets, message.currentPacket),
+      checkRange('screen status', message.status, 0, 0xFF),
+      ...uint16ToBytes(checkRange('character position', message.charPosition, 0, 0xFFFF)),
+      checkRange('page', message.currentPage, 0, 0xFF),
+      checkRange('page count', message.maxPages, 0, 0xFF),
+      ...message.data
+    ],
+    decode: (body) => {
+      const sequence = body.byte('sequence');
+      const { totalChunks: totalPackets, chunkIndex: currentPacket } = body.chunkHeader();
+      return {
+        sequence,
+        totalPackets,
+        currentPacket,
+        status: body.byte('screen status'),
+        charPosition: body.uint16('character position'),
+        currentPage: body.byte('page'),
+        maxPages: body.byte('page count'),
+        data: body.rest()
+      };
+    }
+  },
+
+  // [0x4F, enabled, timeout in seconds]
+  SET_NOTIFICATION_AUTO_DISPLAY: {
+    encode: ({ enabled, timeoutSeconds }) => [flag(enabled), checkRange('auto display timeout', timeoutSeconds, 0, 0xFF)],
+    decode: (body) => ({ enabled: body.flag('auto display'), timeoutSeconds: body.byte('auto display timeout') })
+  },
+
+  // [0x50, locked]
+  SEND_DASHBOARD_LOCK: {
+    encode: ({ locked }) => [flag(locked)],
+    decode: (body) => ({ locked: body.flag('dashboard lock') })
+  },
+
+  // [0xF4, enabled]
+  SET_DEBUG_MODE: {
+    encode: ({ enabled }) => [flag(enabled)],
+    decode: (body) => ({ enabled: body.flag('debug mode') })
+  },
+
+  // [0x20, 0x0D, 0x0E]
+  BMP_TRANSMISSION_END: empty(COMMANDS.BMP_TRANSMISSION_END.slice(1)),
+
+  // [0x16, crc32 big endian]
+  CRC_CHECK: {
+    encode: ({ crc }) => uint32ToBytes(checkRange('CRC', crc, 0, 0xFFFFFFFF)),
+    decode: (body) => ({ crc: body.uint32('CRC') })
+  },
+};
+
+export function encodeCommand(message: G1Command): Uint8Array {
+  const codec = COMMAND_CODECS[message.command] as MessageCodec<G1Command>;
+  return new Uint8Array([commandByte(message.command), ...codec.encode(message)]);
+}
+
+// Throws on unknown command bytes, truncated frames and out-of-range fields
+export function decodeCommand(frame: Uint8Array): G1Command {
+  return decodeFrame<G1Command>(frame, COMMAND_CODECS, commandByte);
+}
+
+// Inbound frames
+const INBOUND_CODECS: InboundCodecs = {
+  // [0x2C, 0x66, flags, percentage, (voltage hi, voltage lo)]
+  GET_BATTERY: {
+    encode: ({ battery }) => [
+      0x66,
+      flag(battery.isCharging),
+      checkRange('battery percentage', battery.percentage, 0, 100),
+      ...(battery.voltage !== undefined ? uint16ToBytes(checkRange('voltage', battery.voltage, 0, 0xFFFF)) : [])
+    ],
+    decode: (body) => {
+      body.expect('battery report', 0x66);
+      const isCharging = (body.byte('battery flags') & 0x01) !== 0;
+      const battery: BatteryInfo = { percentage: body.byte('battery percentage', 0, 100), isCharging };
+      if (body.remaining >= 2) {
+        battery.voltage = body.uint16('voltage');
+      }
+      return { battery };
+    }
+  },
+
+  // [0x29, 0x65, level, auto]
+  GET_BRIGHTNESS: {
+    encode: ({ level, autoMode }) => [0x65, checkRange('brightness', level, 0, MAX_BRIGHTNESS), flag(autoMode)],
+    decode: (body) => {
+      body.expect('brightness report', 0x65);
+      return { level: body.byte('brightness', 0, MAX_BRIGHTNESS), autoMode: body.flag('auto brightness') };
+    }
+  },
+
+  // [0x33, 0x33, ...ascii serial]
+  GET_SERIAL: {
+    encode: ({ serial }) => [0x33, ...new TextEncoder().encode(serial)],
+    decode: (body) => {
+      body.expect('serial report', 0x33);
+      return { serial: new TextDecoder().decode(body.rest()).replace(/\0+$/, '') };
+    }
+  },
+
+  // Plain text, see FIRMWARE_INFO_REPLY
+  GET_FIRMWARE_INFO: {
+    encode: ({ info }) => {
+      if (!info.startsWith(FIRMWARE_INFO_PREFIX)) {
+        throw new Error(`firmware info must start with "${FIRMWARE_INFO_PREFIX}"`);
+      }
+      return Array.from(new TextEncoder().encode(info.slice(1)));
+    },
+    decode: (body) => ({ info: String.fromCharCode(FIRMWARE_INFO_REPLY) + new TextDecoder().decode(body.rest()) })
+  },
+
+  // [0xF1, seq, ...lc3 audio]
+  GET_AUDIO_RECORDING: {
+    encode: ({ sequence, data }) => [checkRange('audio sequence', sequence, 0, 0xFF), ...data],
+    decode: (body) => ({ sequence: body.byte('audio sequence'), data: body.rest() })
+  },
+
+  // [0xF5, event, ...payload]
+  DEVICE_EVENTS: {
+    encode: ({ event, payload }) => [checkRange('device event', event, 0, 0xFF), ...payload],
+    decode: (body) => ({ event: body.byte('device event'), payload: body.rest() })
+  },
+};
+
+export function encodeInbound(message: G1InboundMessage): Uint8Array {
+  const codec = INBOUND_CODECS[message.command] as MessageCodec<G1InboundMessage>;
+  return new Uint8Array([inboundByte(message.command), ...codec.encode(message)]);
+}
+
+// Returns null for frames that are not reports, such as 0xC9/0xCA replies.
+// Throws when a report is truncated or out of range.
+export function decodeInbound(frame: Uint8Array): G1InboundMessage | null {
+  if (!isInboundReport(frame)) return null;
+  return decodeFrame<G1InboundMessage>(frame, INBOUND_CODECS, inboundByte);
+}
+
+function inboundByte(command: G1CommandName): number {
+  return command === 'GET_FIRMWARE_INFO' ? FIRMWARE_INFO_REPLY : commandByte(command);
+}
+
+// Query replies share their command byte with the query; the second byte tells them apart
+const REPORT_MARKERS: { [command: number]: number } = {
+  [COMMANDS.GET_BATTERY]: 0x66,
+  [COMMANDS.GET_BRIGHTNESS]: 0x65,
+  [COMMANDS.GET_SERIAL]: 0x33,
+};
+
+function isInboundReport(frame: Uint8Array): boolean {
+  if (frame.length === 0) return false;
+  if (frame[0] === COMMANDS.GET_AUDIO_RECORDING || frame[0] === COMMANDS.DEVICE_EVENTS) return true;
+  if (frame[0] === FIRMWARE_INFO_REPLY) {
+    return new TextDecoder().decode(frame.slice(0, FIRMWARE_INFO_PREFIX.length)) === FIRMWARE_INFO_PREFIX;
+  }
+  return REPORT_MARKERS[frame[0]] !== undefined && frame[1] === REPORT_MARKERS[frame[0]];
+}
+
+export function decodeBattery(frame: Uint8Array): BatteryInfo | null {
+  const message = decodeInboundSafely(frame);
+  return message?.command === 'GET_BATTERY' ? message.battery : null;
+}
+
+export function decodeAudioPacket(frame: Uint8Array): AudioPacket | null {
+  const message = decodeInboundSafely(frame);
+  return message?.command === 'GET_AUDIO_RECORDING' ? { sequence: message.sequence, data: message.data } : null;
+}
+
+// For listeners on the notification path, where a malformed frame is logged and dropped
+function decodeInboundSafely(frame: Uint8Array): G1InboundMessage | null {
+  try {
+    return decodeInbound(frame);
+  } catch (error) {
+    log.warn('Dropping malformed frame:', error);
+    return null;
+  }
+}
+
+// Dashboard time and weather
+// [ts seconds (32-bit BE), ts ms (64-bit BE), icon, temperature (signed), unit, time format]
+function encodeTimeAndWeather(timestamp: number, weather: WeatherData): number[] {
+  checkRange('timestamp', timestamp, 0, Number.MAX_SAFE_INTEGER);
+
+  const msBytes = new DataView(new ArrayBuffer(8));
+  msBytes.setBigUint64(0, BigInt(timestamp), false);
+
+  return [
+    ...uint32ToBytes(Math.floor(timestamp / 1000)),
+    ...new Uint8Array(msBytes.buffer),
+    checkRange('weather icon', weather.icon, 0, MAX_WEATHER_ICON),
+    checkRange('temperature', weather.temperature, -128, 127) & 0xFF,
+    weather.isCelsius ? 0x00 : 0x01,
+    flag(weather.is24Hour)
+  ];
+}
+
+function decodeTimeAndWeather(body: FrameReader): DashboardSetting {
+  body.skip(4); // Seconds, redundant with the millisecond timestamp
+  const msBytes = body.bytes('timestamp', 8);
+  const timestamp = Number(new DataView(msBytes.buffer, msBytes.byteOffset, 8).getBigUint64(0, false));
+
+  const icon = body.byte('weather icon', 0, MAX_WEATHER_ICON);
+  const temperature = (body.byte('temperature') << 24) >> 24;
+  const isCelsius = !body.flag('temperature unit');
+  const is24Hour = body.flag('time format');
+
+  return { kind: 'timeAndWeather', timestamp, weather: { icon, temperature, isCelsius, is24Hour } };
+}
+
+// Reads a frame body field by field, throwing with the field name when it runs short
+class FrameReader {
+  private frame: Uint8Array;
+  private command: string;
+  private offset = 1; // Past the command byte
+
+  constructor(frame: Uint8Array, command: string) {
+    this.frame = frame;
+    this.command = command;
+  }
+
+  get remaining(): number {
+    return this.frame.length - this.offset;
+  }
+
+  skip(count: number): void {
+    this.bytes('padding', count);
+  }
+
+  byte(name: string, min: number = 0, max: number = 0xFF): number {
+    const value = this.bytes(name, 1)[0];
+    if (value < min || value > max) {
+      throw new Error(`${this.command}: ${name} ${value} is outside ${min}-${max}`);
+    }
+    return value;
+  }
+
+  flag(name: string): boolean {
+    return this.choice(name, { 0x01: true, 0x00: false });
+  }
+
+  choice<T>(name: string, values: { [byte: number]: T }): T {
+    const value = this.byte(name);
+    if (!(value in values)) {
+      throw new Error(`${this.command}: unexpected ${name} value 0x${hex(value)}`);
+    }
+    return values[value];
+  }
+
+  expect(name: string, value: number): void {
+    this.choice(name, { [value]: true });
+  }
+
+  uint16(name: string): number {
+    const [hi, lo] = this.bytes(name, 2);
+    return (hi << 8) | lo;
+  }
+
+  uint16Le(name: string): number {
+    const [lo, hi] = this.bytes(name, 2);
+    return (hi << 8) | lo;
+  }
+
+  uint32(name: string): number {
+    const [b0, b1, b2, b3] = this.bytes(name, 4);
+    return ((b0 << 24) | (b1 << 16) | (b2 << 8) | b3) >>> 0;
+  }
+
+  chunkHeader(): { totalChunks: number; chunkIndex: number } {
+    const totalChunks = this.byte('chunk count', 1);
+    const chunkIndex = this.byte('chunk index', 0, totalChunks - 1);
+    return { totalChunks, chunkIndex };
+  }
+
+  bytes(name: string, count: number): Uint8Array {
+    if (this.remaining < count) {
+      throw new Error(`${this.command}: frame ends before ${name}`);
+    }
+    const bytes = this.frame.slice(this.offset, this.offset + count);
+    this.offset += count;
+    return bytes;
+  }
+
+  rest(): Uint8Array {
+    return this.bytes('data', this.remaining);
+  }
+
+  end(): void {
+    if (this.remaining > 0) {
+      throw new Error(`${this.command}: ${this.remaining} unexpected trailing bytes`);
+    }
+  }
+}
+
+function decodeBody<M extends { command: string }>(frame: Uint8Array, command: M['command'], codec: MessageCodec<M>): M {
+  const body = new FrameReader(frame, command);
+  const message = { command, ...codec.decode(body) } as M;
+  body.end();
+  return message;
+}
+
+// A few commands share their first byte (0x23 reset and firmware info); the first
+// one whose layout fits the frame wins
+function decodeFrame<M extends { command: G1CommandName }>(
+  frame: Uint8Array,
+  codecs: { [command: string]: unknown },
+  firstByte: (command: G1CommandName) => number
+): M {
+  const candidates = (Object.keys(codecs) as M['command'][]).filter(key => firstByte(key) === frame[0]);
+  if (frame.length === 0 || candidates.length === 0) {
+    throw new Error(`Unknown command byte 0x${hex(frame[0] ?? 0)}`);
+  }
+
+  let firstError: unknown;
+  for (const command of candidates) {
+    try {
+      return decodeBody(frame, command, codecs[command] as MessageCodec<M>);
+    } catch (error) {
+      firstError = firstError ?? error;
+    }
+  }
+  throw firstError;
+}
+
+function commandByte(command: G1CommandName): number {
+  const value = COMMANDS[command];
+  return typeof value === 'number' ? value : value[0];
+}
+
+// Commands without fields; fixed holds any constant bytes after the command byte
+function empty<M>(fixed: number[] = []): MessageCodec<M> {
+  return {
+    encode: () => fixed,
+    decode: (body) => {
+      const bytes = body.bytes('constant', fixed.length);
+      if (bytes.some((b, i) => b !== fixed[i])) {
+        throw new Error(`Unexpected bytes ${Array.from(bytes).map(hex).join(' ')}`);
+      }
+      return {} as Omit<M, 'command'>;
+    }
+  };
+}
+
+function chunkHeader(totalChunks: number, chunkIndex: number): number[] {
+  checkRange('chunk count', totalChunks, 1, 0xFF);
+  return [totalChunks, checkRange('chunk index', chunkIndex, 0, totalChunks - 1)];
+}
+
+function checkRange(name: string, value: number, min: number, max: number): number {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new InvalidArgumentError(`${name} must be an integer in ${min}-${max}, got ${value}`);
+  }
+  return value;
+}
+
+function flag(value: boolean): number {
+  return value ? 0x01 : 0x00;
+}
+
+function hex(value: number): string {
+  return value.toString(16).padStart(2, '0');
+}
+
+function uint16ToBytes(value: number): number[] {
+  return [(value >>> 8) & 0xFF, value & 0xFF];
+}
+
+function uint16LeToBytes(value: number): number[] {
+  return [value & 0xFF, (value >>> 8) & 0xFF];
+}
+
+function uint32ToBytes(value: number): number[] {
+  return [
+    (value >>> 24) & 0xFF,
+    (value >>> 16) & 0xFF,
+    (value >>> 8) & 0xFF,
+    value & 0xFF
+  ];
+}
@@ -0,0 +1,113 @@
+// Per-arm command queue.
+// Only one command is in flight on an arm at a time; waiting commands are picked
+// by priority (control > notification > bulk) and FIFO within a priority, so a
+// long bitmap upload cannot starve heartbeats or brightness changes.
+
+import { CommandCancelledError, QueueFullError } from './errors';
+
+export type CommandPriority = 'control' | 'notification' | 'bulk';
+
+const PRIORITY_ORDER: CommandPriority[] = ['control', 'notification', 'bulk'];
+
+export interface QueueMetrics {
+  depth: number; // Commands waiting, excluding the one in flight
+  byPriority: Record<CommandPriority, number>;
+  inFlight: boolean;
+  maxDepth: number;
+  processed: number;
+  cancelled: number;
+  rejected: number;
+  averageWaitMs: number;
+}
+
+// resolve and reject are methods so a QueuedCommand<T> can wait in the QueuedCommand<unknown> list
+interface QueuedCommand<T> {
+  priority: CommandPriority;
+  tag?: string;
+  enqueuedAt: number;
+  run: () => Promise<T>;
+  resolve(value: T): void;
+  reject(error: Error): void;
+}
+
+export class CommandQueue {
+  private readonly maxDepth: number;
+  private items: QueuedCommand<unknown>[] = [];
+  private running = false;
+  private processed = 0;
+  private cancelled = 0;
+  private rejected = 0;
+  private totalWaitMs = 0;
+
+  constructor(maxDepth: number = 64) {
+    this.maxDepth = maxDepth;
+  }
+
+  // Control commands are always admitted; the others are refused once the queue is full
+  enqueue<T>(run: () => Promise<T>, priority: CommandPriority, tag?: string): Promise<T> {
+    if (priority !== 'control' && this.items.length >= this.maxDepth) {
+      this.rejected++;
+      return Promise.reject(new QueueFullError(this.maxDepth));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const command: QueuedCommand<T> = { priority, tag, enqueuedAt: Date.now(), run, resolve, reject };
+      this.items.push(command);
+      this.drain();
+    });
+  }
+
+  // Drops waiting commands (all, or only those with the given tag); the one in flight is left alone
+  cancel(tag?: string): number {
+    const dropped = this.items.filter(item => tag === undefined || item.tag === tag);
+    this.items = this.items.filter(item => !dropped.includes(item));
+
+    dropped.forEach(item => item.reject(new CommandCancelledError()));
+    this.cancelled += dropped.length;
+    return dropped.length;
+  }
+
+  get metrics(): QueueMetrics {
+    const byPriority = { control: 0, notification: 0, bulk: 0 };
+    this.items.forEach(item => byPriority[item.priority]++);
+
+    return {
+      depth: this.items.length,
+      byPriority,
+      inFlight: this.running,
+      maxDepth: this.maxDepth,
+      processed: this.processed,
+      cancelled: this.cancelled,
+      rejected: this.rejected,
+      averageWaitMs: this.processed > 0 ? this.totalWaitMs / this.processed : 0
+    };
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    let next: QueuedCommand<unknown> | undefined;
+    while ((next = this.takeNext())) {
+      this.totalWaitMs += Date.now() - next.enqueuedAt;
+      try {
+        next.resolve(await next.run());
+      } catch (error) {
+        next.reject(error as Error);
+      }
+      this.processed++;
+    }
+
+    this.running = false;
+  }
+
+  private takeNext(): QueuedCommand<unknown> | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const index = this.items.findIndex(item => item.priority === priority);
+      if (index !== -1) {
+        return this.items.splice(index, 1)[0];
+      }
+    }
+    return undefined;
+  }
+}
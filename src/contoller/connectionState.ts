@@ -0,0 +1,78 @@
+// Connection state machine for a G1 pair.
+//
+//   idle → scanning → connecting → initializing → ready
+//                                      ↘             ↕
+//                                       degraded ⇄ reconnecting
+//
+// degraded and reconnecting remember which arm is still usable so commands can be
+// routed to it (or refused when the arm they need is the missing one). Any state but
+// idle can end in failed when the manager runs into an error it cannot recover from;
+// disconnecting or connecting again leaves it.
+
+import { InvalidStateError } from './errors';
+import { ArmSide } from './transport';
+
+export type ArmAvailability = 'leftOnly' | 'rightOnly';
+
+export type G1ConnectionState =
+  | { status: 'idle' }
+  | { status: 'scanning' }
+  | { status: 'connecting'; pending: ArmSide[] } // Arms whose connection is still in progress
+  | { status: 'initializing' }
+  | { status: 'ready' }
+  | { status: 'degraded'; available: ArmAvailability }
+  | { status: 'reconnecting'; available: ArmAvailability | 'none' }
+  | { status: 'failed'; error: Error };
+
+export type G1ConnectionStatus = G1ConnectionState['status'];
+
+const TRANSITIONS: Record<G1ConnectionStatus, G1ConnectionStatus[]> = {
+  idle: ['scanning', 'connecting'],
+  scanning: ['idle', 'connecting'],
+  connecting: ['connecting', 'initializing', 'idle', 'failed'],
+  initializing: ['ready', 'degraded', 'idle', 'failed'],
+  ready: ['degraded', 'reconnecting', 'idle', 'failed'],
+  degraded: ['reconnecting', 'ready', 'idle', 'failed'],
+  reconnecting: ['reconnecting', 'degraded', 'ready', 'idle', 'failed'],
+  failed: ['idle', 'scanning', 'connecting'],
+};
+
+export class ConnectionStateMachine {
+  private current: G1ConnectionState = { status: 'idle' };
+  private listeners: ((state: G1ConnectionState, previous: G1ConnectionState) => void)[] = [];
+
+  get state(): G1ConnectionState {
+    return this.current;
+  }
+
+  canTransition(status: G1ConnectionStatus): boolean {
+    return TRANSITIONS[this.current.status].includes(status);
+  }
+
+  transition(next: G1ConnectionState): void {
+    if (!this.canTransition(next.status)) {
+      throw new InvalidStateError(`Invalid connection state transition: ${this.current.status} → ${next.status}`);
+    }
+
+    const previous = this.current;
+    this.current = next;
+    this.listeners.forEach(listener => listener(next, previous));
+  }
+
+  onChange(listener: (state: G1ConnectionState, previous: G1ConnectionState) => void): void {
+    this.listeners.push(listener);
+  }
+}
+
+// Which arms can take commands in the given state
+export function availableArms(state: G1ConnectionState): { left: boolean; right: boolean } {
+  switch (state.status) {
+    case 'ready':
+      return { left: true, right: true };
+    case 'degraded':
+    case 'reconnecting':
+      return { left: state.available === 'leftOnly', right: state.available === 'rightOnly' };
+    default:
+      return { left: false, right: false };
+  }
+}
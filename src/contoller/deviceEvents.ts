@@ -0,0 +1,214 @@
+// Device events (0xF5 frames) and the wear/case status they add up to.
+//
+// decodeDeviceEvent turns a frame into a typed G1DeviceEvent; reduceDeviceStatus
+// folds events into a G1DeviceStatus. Neither sends anything: reactions such as
+// clearing the screen when Even AI starts belong to the caller.
+
+import { decodeInbound } from './codec';
+import { createLogger } from './logger';
+import { ArmSide } from './transport';
+
+const log = createLogger('events');
+
+// Event byte of 0xF5 frames
+export const DEVICE_EVENT_CODES = {
+  DOUBLE_TAP: 0x00,
+  SINGLE_TAP: 0x01,
+  HEAD_UP: 0x02,
+  HEAD_DOWN: 0x03,
+  SILENT_MODE_ON: 0x04, // Triple tap
+  SILENT_MODE_OFF: 0x05, // Triple tap
+  WORN: 0x06,
+  TAKEN_OFF: 0x07,
+  CASE_LID_OPENED: 0x08, // Put in the case, lid open
+  CHARGING: 0x09,
+  CASE_LID_CLOSED: 0x0B,
+  CASE_CHARGING: 0x0E,
+  CASE_BATTERY: 0x0F,
+  PAIRED: 0x11,
+  LONG_PRESS_RELEASED: 0x12, // Right touchpad pressed, held and released
+  AI_START: 0x17, // Left touchpad pressed and held
+  AI_STOP: 0x18, // Left touchpad released
+  DASHBOARD_OPENED: 0x1E,
+  DASHBOARD_CLOSED: 0x1F,
+  TRANSLATE_DOUBLE_TAP: 0x20, // Double tap while translating/transcribing
+} as const;
+
+type SideEvent<T> = T & { side: ArmSide };
+
+export type G1DeviceEvent = SideEvent<
+  | { type: 'tap' }
+  | { type: 'doubleTap' }
+  | { type: 'tripleTap'; silentMode: boolean }
+  | { type: 'headUp' }
+  | { type: 'headDown' }
+  | { type: 'worn' }
+  | { type: 'takenOff' }
+  | { type: 'caseLidOpened' }
+  | { type: 'caseLidClosed' }
+  | { type: 'charging'; charging: boolean }
+  | { type: 'caseCharging'; charging: boolean }
+  | { type: 'caseBattery'; percent: number }
+  | { type: 'paired' }
+  | { type: 'longPressReleased' }
+  | { type: 'aiStart' }
+  | { type: 'aiStop' }
+  | { type: 'dashboardOpened' }
+  | { type: 'dashboardClosed' }
+  | { type: 'translateDoubleTap' }
+  | { type: 'unknown'; code: number; payload: Uint8Array }
+>;
+
+export type G1DeviceEventType = G1DeviceEvent['type'];
+
+export interface G1DeviceStatus {
+  worn: boolean;
+  inCase: boolean;
+  caseLidOpen: boolean;
+  charging: boolean;
+  caseCharging: boolean;
+  caseBatteryPercent: number | null; // null until the case reports it
+  silentMode: boolean;
+  headUp: boolean;
+  dashboardOpen: boolean;
+  evenAIActive: boolean;
+}
+
+export const INITIAL_DEVICE_STATUS: G1DeviceStatus = {
+  worn: false,
+  inCase: false,
+  caseLidOpen: false,
+  charging: false,
+  caseCharging: false,
+  caseBatteryPercent: null,
+  silentMode: false,
+  headUp: false,
+  dashboardOpen: false,
+  evenAIActive: false,
+};
+
+// Returns null for frames that are not device events; unknown event bytes come
+// back as { type: 'unknown' } so nothing the glasses send is dropped silently
+export function decodeDeviceEvent(frame: Uint8Array, side: ArmSide): G1DeviceEvent | null {
+  let message;
+  try {
+    message = decodeInbound(frame);
+  } catch (error) {
+    log.warn('Dropping malformed device event:', error);
+    return null;
+  }
+  if (message?.command !== 'DEVICE_EVENTS') return null;
+
+  const { event, payload } = message;
+  switch (event) {
+    case DEVICE_EVENT_CODES.DOUBLE_TAP: return { type: 'doubleTap', side };
+    case DEVICE_EVENT_CODES.SINGLE_TAP: return { type: 'tap', side };
+    case DEVICE_EVENT_CODES.HEAD_UP: return { type: 'headUp', side };
+    case DEVICE_EVENT_CODES.HEAD_DOWN: return { type: 'headDown', side };
+    case DEVICE_EVENT_CODES.SILENT_MODE_ON: return { type: 'tripleTap', silentMode: true, side };
+    case DEVICE_EVENT_CODES.SILENT_MODE_OFF: return { type: 'tripleTap', silentMode: false, side };
+    case DEVICE_EVENT_CODES.WORN: return { type: 'worn', side };
+    case DEVICE_EVENT_CODES.TAKEN_OFF: return { type: 'takenOff', side };
+    case DEVICE_EVENT_CODES.CASE_LID_OPENED: return { type: 'caseLidOpened', side };
+    case DEVICE_EVENT_CODES.CASE_LID_CLOSED: return { type: 'caseLidClosed', side };
+    case DEVICE_EVENT_CODES.PAIRED: return { type: 'paired', side };
+    case DEVICE_EVENT_CODES.LONG_PRESS_RELEASED: return { type: 'longPressReleased', side };
+    case DEVICE_EVENT_CODES.AI_START: return { type: 'aiStart', side };
+    case DEVICE_EVENT_CODES.AI_STOP: return { type: 'aiStop', side };
+    case DEVICE_EVENT_CODES.DASHBOARD_OPENED: return { type: 'dashboardOpened', side };
+    case DEVICE_EVENT_CODES.DASHBOARD_CLOSED: return { type: 'dashboardClosed', side };
+    case DEVICE_EVENT_CODES.TRANSLATE_DOUBLE_TAP: return { type: 'translateDoubleTap', side };
+  }
+
+  // The remaining events carry a value in their first payload byte
+  if (payload.length >= 1) {
+    switch (event) {
+      case DEVICE_EVENT_CODES.CHARGING: return { type: 'charging', charging: payload[0] === 0x01, side };
+      case DEVICE_EVENT_CODES.CASE_CHARGING: return { type: 'caseCharging', charging: payload[0] === 0x01, side };
+      case DEVICE_EVENT_CODES.CASE_BATTERY: return { type: 'caseBattery', percent: Math.min(payload[0], 100), side };
+    }
+  }
+
+  return { type: 'unknown', code: event, payload, side };
+}
+
+// Touchpad use means the glasses are on someone's head, whatever the case events said
+const WORN = { worn: true, inCase: false, caseLidOpen: false };
+
+export function reduceDeviceStatus(status: G1DeviceStatus, event: G1DeviceEvent): G1DeviceStatus {
+  switch (event.type) {
+    case 'tap':
+    case 'doubleTap':
+    case 'longPressReleased':
+    case 'translateDoubleTap':
+      return { ...status, ...WORN };
+    case 'tripleTap':
+      return { ...status, ...WORN, silentMode: event.silentMode };
+    case 'aiStart':
+    case 'aiStop':
+      return { ...status, ...WORN, evenAIActive: event.type === 'aiStart' };
+    case 'dashboardOpened':
+    case 'dashboardClosed':
+      return { ...status, ...WORN, dashboardOpen: event.type === 'dashboardOpened' };
+    case 'headUp':
+    case 'headDown':
+      return { ...status, headUp: event.type === 'headUp' };
+    case 'worn':
+      return { ...status, ...WORN };
+    case 'takenOff':
+      return { ...status, worn: false, inCase: false, caseLidOpen: false };
+    case 'caseLidOpened':
+    case 'caseLidClosed':
+      return { ...status, worn: false, inCase: true, caseLidOpen: event.type === 'caseLidOpened' };
+    case 'charging':
+      return { ...status, charging: event.charging };
+    case 'caseCharging':
+      return { ...status, caseCharging: event.charging };
+    case 'caseBattery':
+      return { ...status, caseBatteryPercent: event.percent };
+    case 'paired':
+    case 'unknown':
+      return status;
+  }
+}
+
+// Short human-readable label for logs and event lists
+export function describeDeviceEvent(event: G1DeviceEvent): string {
+  switch (event.type) {
+    case 'tripleTap':
+      return `Triple tap, silent mode ${event.silentMode ? 'on' : 'off'}`;
+    case 'charging':
+      return event.charging ? 'Charging' : 'Not charging';
+    case 'caseCharging':
+      return event.charging ? 'Case charging' : 'Case not charging';
+    case 'caseBattery':
+      return `Case battery ${event.percent}%`;
+    case 'unknown':
+      return `Unknown event 0x${event.code.toString(16).padStart(2, '0')}`;
+    default:
+      return EVENT_LABELS[event.type];
+  }
+}
+
+const EVENT_LABELS: Record<G1DeviceEventType, string> = {
+  tap: 'TouchPad single tap',
+  doubleTap: 'TouchPad double tap',
+  tripleTap: 'TouchPad triple tap',
+  headUp: 'Head up',
+  headDown: 'Head down',
+  worn: 'Glasses are worn',
+  takenOff: 'Glasses taken off, not in case',
+  caseLidOpened: 'Put in case, lid open',
+  caseLidClosed: 'Put in case, lid closed',
+  charging: 'Charging status change',
+  caseCharging: 'Case charging status change',
+  caseBattery: 'Case battery percent',
+  paired: 'BLE paired',
+  longPressReleased: 'Right TouchPad pressed, held and released',
+  aiStart: 'Left TouchPad pressed and held',
+  aiStop: 'Left TouchPad released',
+  dashboardOpened: 'Dashboard opened',
+  dashboardClosed: 'Dashboard closed',
+  translateDoubleTap: 'Double tap (translate/transcribe mode)',
+  unknown: 'Unknown event',
+};
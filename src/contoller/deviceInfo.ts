@@ -0,0 +1,118 @@
+// What a connected G1 is: model, frame and colour from the serial number, the
+// firmware each arm runs and the identity each arm advertises.
+//
+// Serial numbers look like S110LAA2409A01:
+//   S1 | frame shape (0 round, 1 square) | 0 | L | colour (AA grey, BB brown, CC green) | production batch
+//
+// Unknown codes decode to 'unknown' instead of failing, so new models still show
+// their serial and batch.
+
+import { parseG1Name } from './pairing';
+import { FIRMWARE_INFO_PREFIX } from './protocol';
+import { ArmSide } from './transport';
+
+export type G1Model = 'G1A' | 'G1B' | 'unknown';
+export type G1FrameShape = 'round' | 'square' | 'unknown';
+export type G1FrameColor = 'grey' | 'brown' | 'green' | 'unknown';
+
+export interface G1SerialInfo {
+  serial: string;
+  model: G1Model;
+  shape: G1FrameShape;
+  color: G1FrameColor;
+  batch: string | null;
+}
+
+export interface G1FirmwareInfo {
+  version: string | null; // e.g. 1.4.5
+  buildTime: string | null;
+  raw: string;
+}
+
+export interface G1ArmIdentity {
+  side: ArmSide;
+  deviceId: string;
+  name: string | null; // Advertised name, e.g. Even G1_74_L_39D1A6
+  armId: string | null; // Per-arm suffix of the advertised name
+  firmware: G1FirmwareInfo | null;
+}
+
+export interface G1DeviceInfo extends G1SerialInfo {
+  channel: number | null; // Pair channel from the advertised names
+  firmwareVersion: string | null; // The left arm's, or the right arm's when the left did not answer
+  arms: Record<ArmSide, G1ArmIdentity | null>;
+}
+
+const SHAPES: { [code: string]: { shape: G1FrameShape; model: G1Model } } = {
+  '0': { shape: 'round', model: 'G1A' },
+  '1': { shape: 'square', model: 'G1B' },
+};
+
+const COLORS: { [code: string]: G1FrameColor } = {
+  AA: 'grey',
+  BB: 'brown',
+  CC: 'green',
+};
+
+const SERIAL_PATTERN = /^S1([0-9])0L([A-Z]{2})([0-9A-Z]*)$/;
+
+export function parseG1Serial(serial: string): G1SerialInfo {
+  const trimmed = serial.trim().toUpperCase();
+  const match = SERIAL_PATTERN.exec(trimmed);
+  if (!match) {
+    return { serial: trimmed, model: 'unknown', shape: 'unknown', color: 'unknown', batch: null };
+  }
+
+  const frame = SHAPES[match[1]] ?? { shape: 'unknown', model: 'unknown' };
+  return {
+    serial: trimmed,
+    model: frame.model,
+    shape: frame.shape,
+    color: COLORS[match[2]] ?? 'unknown',
+    batch: match[3] || null
+  };
+}
+
+// "net build time: 2024-12-28 20:21:57, app build time 2024-12-28 20:20:45, ver 1.4.5, JBD DeviceID 4010"
+export function parseFirmwareInfo(text: string): G1FirmwareInfo {
+  const raw = text.replace(/\0+$/, '').trim();
+  const version = /\bver\s+(\d+(?:\.\d+)+)/.exec(raw);
+  const buildTime = new RegExp(`^${FIRMWARE_INFO_PREFIX}:\\s*([^,]+)`).exec(raw);
+
+  return {
+    version: version ? version[1] : null,
+    buildTime: buildTime ? buildTime[1].trim() : null,
+    raw
+  };
+}
+
+export function buildDeviceInfo(
+  serial: string,
+  arms: Record<ArmSide, { id: string; name: string | null } | null>,
+  firmware: Record<ArmSide, string | null>
+): G1DeviceInfo {
+  const identities: Record<ArmSide, G1ArmIdentity | null> = { left: null, right: null };
+  let channel: number | null = null;
+
+  for (const side of ['left', 'right'] as ArmSide[]) {
+    const arm = arms[side];
+    if (!arm) continue;
+
+    const advertised = arm.name ? parseG1Name(arm.name) : null;
+    channel = channel ?? advertised?.channel ?? null;
+    identities[side] = {
+      side,
+      deviceId: arm.id,
+      name: arm.name,
+      armId: advertised?.serial ?? null,
+      firmware: firmware[side] !== null ? parseFirmwareInfo(firmware[side]!) : null
+    };
+  }
+
+  return {
+    ...parseG1Serial(serial),
+    channel,
+    firmwareVersion: identities.left?.firmware?.version ?? identities.right?.firmware?.version ?? null,
+    arms: identities
+  };
+}
@@ -0,0 +1,198 @@
+// Errors the SDK throws for conditions an app can act on.
+//
+// Every one is a G1Error with a code, so screens can switch on error.code (or use
+// instanceof) and show what actually went wrong instead of "Failed to send text".
+// Malformed frames are programming errors and stay plain Errors; a value the protocol
+// cannot carry (a brightness above 0x2A, an image of the wrong size) is an InvalidArgumentError.
+
+import { CommandResult } from './acks';
+import { ArmSide, TransportState } from './transport';
+
+export type G1ErrorCode =
+  | 'NotConnected'
+  | 'ArmUnavailable'
+  | 'Timeout'
+  | 'Nacked'
+  | 'PayloadTooLarge'
+  | 'CrcMismatch'
+  | 'BluetoothOff'
+  | 'PermissionDenied'
+  | 'QueueFull'
+  | 'Cancelled'
+  | 'UnexpectedReply'
+  | 'UartNotFound'
+  | 'InvalidState'
+  | 'InvalidArgument';
+
+export class G1Error extends Error {
+  readonly code: G1ErrorCode;
+
+  constructor(code: G1ErrorCode, message: string) {
+    super(message);
+    this.name = 'G1Error';
+    this.code = code;
+  }
+}
+
+// Neither arm is connected
+export class NotConnectedError extends G1Error {
+  constructor(message: string = 'Glasses are not connected. Connect to them and try again.') {
+    super('NotConnected', message);
+    this.name = 'NotConnectedError';
+  }
+}
+
+// The command needs an arm that is disconnected or reconnecting
+export class ArmUnavailableError extends G1Error {
+  readonly side: ArmSide;
+
+  constructor(side: ArmSide, message: string = `The ${side} arm is not connected. Wait for it to reconnect or move closer.`) {
+    super('ArmUnavailable', message);
+    this.name = 'ArmUnavailableError';
+    this.side = side;
+  }
+}
+
+// An arm did not answer in time, or a connection attempt ran out of time
+export class TimeoutError extends G1Error {
+  readonly side: ArmSide | null;
+  readonly command: number | null;
+
+  constructor(message: string, side: ArmSide | null = null, command: number | null = null) {
+    super('Timeout', message);
+    this.name = 'TimeoutError';
+    this.side = side;
+    this.command = command;
+  }
+}
+
+// An arm answered 0xCA, after all retries
+export class NackedError extends G1Error {
+  readonly side: ArmSide;
+  readonly command: number;
+
+  constructor(message: string, side: ArmSide, command: number) {
+    super('Nacked', message);
+    this.name = 'NackedError';
+    this.side = side;
+    this.command = command;
+  }
+}
+
+export class PayloadTooLargeError extends G1Error {
+  readonly size: number;
+  readonly limit: number;
+
+  constructor(what: string, size: number, limit: number) {
+    super('PayloadTooLarge', `${what} is too large (${size} bytes, at most ${limit}). Shorten it and try again.`);
+    this.name = 'PayloadTooLargeError';
+    this.size = size;
+    this.limit = limit;
+  }
+}
+
+// The glasses computed a different CRC for an uploaded image
+export class CrcMismatchError extends G1Error {
+  readonly side: ArmSide;
+
+  constructor(side: ArmSide) {
+    super('CrcMismatch', `The image arrived corrupted on the ${side} arm. Send it again.`);
+    this.name = 'CrcMismatchError';
+    this.side = side;
+  }
+}
+
+export class BluetoothOffError extends G1Error {
+  readonly state: TransportState;
+
+  constructor(state: TransportState) {
+    super('BluetoothOff', state === 'Unsupported'
+      ? 'This device does not support Bluetooth Low Energy.'
+      : `Bluetooth is not available (${state}). Turn it on and try again.`);
+    this.name = 'BluetoothOffError';
+    this.state = state;
+  }
+}
+
+export class PermissionDeniedError extends G1Error {
+  constructor(message: string = 'Bluetooth permission was denied. Allow it in the system settings and try again.') {
+    super('PermissionDenied', message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// Too many commands are waiting for an arm; try again once they have gone out
+export class QueueFullError extends G1Error {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super('QueueFull', `Too many commands are waiting to be sent (${limit}). Try again in a moment.`);
+    this.name = 'QueueFullError';
+    this.limit = limit;
+  }
+}
+
+// The command was dropped from the queue before it was sent, e.g. by cancelImageUpload
+export class CommandCancelledError extends G1Error {
+  constructor(message: string = 'The command was cancelled before it was sent.') {
+    super('Cancelled', message);
+    this.name = 'CommandCancelledError';
+  }
+}
+
+// A query got no reply, or a reply to something else
+export class UnexpectedReplyError extends G1Error {
+  readonly side: ArmSide | null;
+
+  constructor(message: string, side: ArmSide | null = null) {
+    super('UnexpectedReply', message);
+    this.name = 'UnexpectedReplyError';
+    this.side = side;
+  }
+}
+
+// The device does not offer the Nordic UART the glasses talk over, so it is probably not a G1 arm
+export class UartNotFoundError extends G1Error {
+  constructor(message: string) {
+    super('UartNotFound', message);
+    this.name = 'UartNotFoundError';
+  }
+}
+
+// The manager was asked to do something its connection state does not allow
+export class InvalidStateError extends G1Error {
+  constructor(message: string) {
+    super('InvalidState', message);
+    this.name = 'InvalidStateError';
+  }
+}
+
+// A value outside what the protocol can carry, e.g. a brightness above 0x2A
+export class InvalidArgumentError extends G1Error {
+  constructor(message: string) {
+    super('InvalidArgument', message);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export function isG1Error(error: unknown, code?: G1ErrorCode): error is G1Error {
+  return error instanceof G1Error && (code === undefined || error.code === code);
+}
+
+// The error for a Bluetooth state other than PoweredOn
+export function bluetoothStateError(state: TransportState): G1Error {
+  return state === 'Unauthorized' ? new PermissionDeniedError() : new BluetoothOffError(state);
+}
+
+// Throws for the first result that was not acknowledged. `what` names the
+// operation in the message, e.g. "Text packet 2/3".
+export function assertAcked(results: CommandResult[], what: string): void {
+  for (const result of results) {
+    if (result.status === 'timeout') {
+      throw new TimeoutError(`${what}: the ${result.side} arm did not answer. Check that it is in range.`, result.side, result.command);
+    }
+    if (result.status === 'nacked') {
+      throw new NackedError(`${what} was rejected by the ${result.side} arm.`, result.side, result.command);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+// Streams an AI answer onto the glasses while it is being generated.
+//
+// Tokens are collected and the page being written is repainted at most every throttleMs,
+// so a fast model does not turn into one BLE write per token. Repaints that only add text
+// carry the offset of the new characters (charPosition) so the glasses can draw just
+// those. When the text runs past LINES_PER_SCREEN lines the writer moves on to the next
+// page by itself. The last repaint carries EVEN_AI_COMPLETE, or EVEN_AI_ERROR when the
+// answer failed.
+
+import { G1CommandChannel } from '../channel';
+import { createTextChunks, encodeTextPacket, splitIntoScreens } from '../codec';
+import { assertAcked } from '../errors';
+import { createLogger } from '../logger';
+import { SCREEN_STATUS } from '../protocol';
+import { layoutText } from '../textLayout';
+
+const log = createLogger('ai');
+
+export interface AIStreamOptions {
+  throttleMs?: number; // Minimum time between two repaints
+}
+
+export class AIResponseWriter {
+  private channel: G1CommandChannel;
+  private throttleMs: number;
+  private text = '';
+  private page = 0; // Page on screen, 0-based
+  private shown: string | null = null; // Text of that page as last sent
+  private shownStatus = 0;
+  private lastPaintAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private painting: Promise<void> = Promise.resolve();
+  private error: Error | null = null;
+  private finished = false;
+
+  constructor(channel: G1CommandChannel, options: AIStreamOptions = {}) {
+    this.channel = channel;
+    this.throttleMs = options.throttleMs ?? 300;
+  }
+
+  get content(): string {
+    return this.text;
+  }
+
+  append(token: string): void {
+    if (this.finished) {
+      throw new Error('The AI response has already been finished');
+    }
+    this.text += token;
+    this.schedulePaint();
+  }
+
+  // Shows the whole answer with EVEN_AI_COMPLETE. Throws the first error a repaint ran into.
+  async finish(): Promise<void> {
+    await this.end(SCREEN_STATUS.EVEN_AI_COMPLETE);
+    if (this.error) {
+      throw this.error;
+    }
+  }
+
+  // Shows what arrived so far with EVEN_AI_ERROR. Repaint errors are logged, not thrown,
+  // so they do not hide the failure that caused the call.
+  async fail(): Promise<void> {
+    await this.end(SCREEN_STATUS.EVEN_AI_ERROR);
+    if (this.error) {
+      log.warn('Could not show the AI error state:', this.error);
+    }
+  }
+
+  private async end(status: number): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.enqueuePaint(status);
+  }
+
+  private schedulePaint(): void {
+    if (this.timer || this.error) return;
+
+    const delayMs = Math.max(0, this.lastPaintAt + this.throttleMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueuePaint(SCREEN_STATUS.EVEN_AI_DISPLAYING);
+    }, delayMs);
+  }
+
+  // Paints run one after another; a failed paint stops the ones after it
+  private enqueuePaint(status: number): Promise<void> {
+    this.painting = this.painting.then(async () => {
+      if (this.error) return;
+      try {
+        await this.paint(status);
+      } catch (error) {
+        this.error = error as Error;
+        log.error('Failed to show the AI response:', error);
+      }
+      this.lastPaintAt = Date.now();
+    });
+    return this.painting;
+  }
+
+  // Brings the screen up to date with the text. Pages that filled up since the last
+  // paint are sent complete on the way to the last one.
+  private async paint(status: number): Promise<void> {
+    const targets = this.channel.route('both');
+    const pages = splitIntoScreens(layoutText(this.text, this.channel.textLayout));
+    if (pages.length === 0) pages.push([]);
+    const lastPage = pages.length - 1;
+
+    for (let page = Math.min(this.page, lastPage); page <= lastPage; page++) {
+      const lines = pages[page];
+      const content = lines.join('\n');
+      const pageStatus = page === lastPage ? status : SCREEN_STATUS.EVEN_AI_DISPLAYING;
+      const samePage = page === this.page && this.shown !== null;
+      if (samePage && content === this.shown && pageStatus === this.shownStatus) continue;
+
+      // Appends on the same page only send where the new characters begin
+      const charPosition = samePage && content.startsWith(this.shown!) ? Array.from(this.shown!).length : 0;
+      const chunks = createTextChunks(lines, this.channel.packetSizes(targets).textChunk);
+      if (chunks.length === 0) chunks.push(new Uint8Array());
+
+      for (let i = 0; i < chunks.length; i++) {
+        const packet = encodeTextPacket({
+          sequence: this.channel.nextSequence(),
+          totalPackets: chunks.length,
+          currentPacket: i,
+          status: SCREEN_STATUS.NEW_CONTENT | pageStatus,
+          currentPage: page + 1,
+          maxPages: pages.length,
+          charPosition
+        }, chunks[i]);
+
+        assertAcked(await this.channel.sendSequentially(packet, targets), `AI response page ${page + 1}, packet ${i + 1}/${chunks.length}`);
+      }
+
+      this.page = page;
+      this.shown = content;
+      this.shownStatus = pageStatus;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+// Dashboard shown when the wearer looks up: time and weather.
+
+import { G1CommandChannel } from '../channel';
+import { encodeDashboardTimeAndWeather, WeatherData } from '../codec';
+import { assertAcked } from '../errors';
+
+export class DashboardService {
+  private channel: G1CommandChannel;
+
+  constructor(channel: G1CommandChannel) {
+    this.channel = channel;
+  }
+
+  // Throws a G1Error when the glasses are not connected or an arm does not acknowledge
+  async setTimeAndWeather(weather: WeatherData): Promise<void> {
+    const command = encodeDashboardTimeAndWeather(this.channel.nextSequence(), weather);
+    assertAcked(await this.channel.send(command, this.channel.route('both')), 'Dashboard update');
+  }
+}
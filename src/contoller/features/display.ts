@@ -0,0 +1,404 @@
+// Text, text regions, paged documents, images and the loading animation.
+// Remembers what is on screen so it can be put back on an arm that reconnects.
+//
+// Text packets have no coordinates (bytes 5-8 of the header are the new character
+// position and the page indicator), so positions are applied by the layout in
+// textLayout.ts: rows for y, leading spaces for x.
+
+import { CommandResult } from '../acks';
+import { ArmTargets, G1CommandChannel, G1Feature, SendOptions } from '../channel';
+import {
+  BITMAP_HEIGHT,
+  BITMAP_WIDTH,
+  bitmapCrc,
+  createTextChunks,
+  DISPLAY_WIDTH,
+  encodeBitmapEnd,
+  encodeBitmapPackets,
+  encodeClearScreen,
+  encodeCommand,
+  encodeCrcCheck,
+  encodeTextPacket,
+  FONT_SIZE,
+  LINE_HEIGHT,
+  LINES_PER_SCREEN,
+  splitIntoScreens
+} from '../codec';
+import { decodeDeviceEvent, G1DeviceEvent } from '../deviceEvents';
+import { assertAcked, CrcMismatchError, InvalidArgumentError } from '../errors';
+import { createLogger } from '../logger';
+import { SCREEN_STATUS } from '../protocol';
+import { composeRegions, layoutText, TextRegion } from '../textLayout';
+
+const log = createLogger('display');
+
+export interface BMPImageData {
+  width: number;
+  height: number;
+  data: Uint8Array; // The complete 1-bit BMP file
+}
+
+type DisplayedContent =
+  | { kind: 'text'; text: string; x: number; y: number; replace: boolean }
+  | { kind: 'regions'; regions: TextRegion[]; replace: boolean }
+  | { kind: 'document'; document: TextDocument }
+  | { kind: 'bitmap'; image: BMPImageData };
+
+const BITMAP_OPTIONS: SendOptions = { tag: 'bitmap' };
+
+export class DisplayService implements G1Feature {
+  private channel: G1CommandChannel;
+  private displayed: DisplayedContent | null = null;
+  private bitmapUploadId = 0;
+
+  constructor(channel: G1CommandChannel) {
+    this.channel = channel;
+    this.channel.onFrame((frame, side) => {
+      const event = decodeDeviceEvent(frame, side);
+      if (event && this.displayed?.kind === 'document') {
+        this.displayed.document.handleTouch(event);
+      }
+    });
+  }
+
+  async restore(targets: ArmTargets): Promise<void> {
+    if (this.displayed?.kind === 'text') {
+      const { text, x, y, replace } = this.displayed;
+      await this.displayText(text, x, y, replace, targets);
+    } else if (this.displayed?.kind === 'regions') {
+      const { regions, replace } = this.displayed;
+      await this.sendPage(composeRegions(regions, this.channel.textLayout), 0, 1, targets, textStatus(replace));
+    } else if (this.displayed?.kind === 'document') {
+      await this.displayed.document.render(targets);
+    } else if (this.displayed?.kind === 'bitmap') {
+      await this.transmitBitmap(this.displayed.image, targets);
+    }
+  }
+
+  // Text
+  // Shows the lines that fit on one screen from y down and drops the rest; use openDocument
+  // for text the wearer should page through. Throws a G1Error when the glasses are not
+  // connected or an arm does not acknowledge a packet.
+  async sendText(text: string, x: number = 0, y: number = 0, replace: boolean): Promise<void> {
+    const targets = this.channel.route('both');
+    this.show({ kind: 'text', text, x, y, replace });
+
+    await this.displayText(text, x, y, replace, targets);
+  }
+
+  // x and y are clamped to the display. Lines wrap within the width right of x, starting
+  // on the row y falls in.
+  private async displayText(
+    text: string,
+    x: number,
+    y: number,
+    replace: boolean,
+    targets: ArmTargets
+  ): Promise<void> {
+    log.debug('Sending text:', text);
+
+    const left = Math.min(Math.max(x, 0), DISPLAY_WIDTH - FONT_SIZE);
+    const top = Math.min(Math.max(y, 0), (LINES_PER_SCREEN - 1) * LINE_HEIGHT);
+    const lines = layoutText(text, { ...this.channel.textLayout, maxWidth: DISPLAY_WIDTH - left });
+    log.debug('Lines:', lines);
+    const rows = LINES_PER_SCREEN - Math.floor(top / LINE_HEIGHT);
+    if (lines.length > rows) {
+      log.warn(`Text needs ${lines.length} lines but only ${rows} fit; the rest is not shown`);
+    }
+
+    const screen = composeRegions([{ text: lines.slice(0, rows).join('\n'), x: left, y: top }], this.channel.textLayout);
+    await this.sendPage(screen, 0, 1, targets, textStatus(replace));
+  }
+
+  // Text regions
+  // Places text boxes at pixel positions on one screen, each wrapped within its width and
+  // aligned inside it. Throws a plain Error for regions outside the display or overlapping
+  // on a row, and a G1Error when sending fails.
+  async showRegions(regions: TextRegion[], replace: boolean = false): Promise<void> {
+    const targets = this.channel.route('both');
+    const lines = composeRegions(regions, this.channel.textLayout);
+    this.show({ kind: 'regions', regions, replace });
+
+    await this.sendPage(lines, 0, 1, targets, textStatus(replace));
+  }
+
+  // Paged documents
+  // Shows page 1 and leaves paging to the wearer: a tap on the right touchpad goes forward,
+  // one on the left goes back and a double tap on either closes the document. The handle
+  // lets the app page, replace the text or close it too. Anything else sent to the display
+  // ends the document.
+  async openDocument(text: string): Promise<TextDocument> {
+    const targets = this.channel.route('both');
+    const document = new TextDocument(text, {
+      layout: (content) => splitIntoScreens(layoutText(content, this.channel.textLayout)),
+      renderPage: (lines, page, pageCount, renderTargets) =>
+        this.sendPage(lines, page, pageCount, renderTargets ?? this.channel.route('both')),
+      close: async (closing) => {
+        if (this.displayed?.kind === 'document' && this.displayed.document === closing) {
+          await this.clearScreen();
+        }
+      }
+    });
+
+    this.show({ kind: 'document', document });
+    await document.render(targets);
+    return document;
+  }
+
+  // One screen of text, with its 1-based page number for the indicator on the glasses
+  private async sendPage(
+    lines: string[],
+    page: number,
+    pageCount: number,
+    targets: ArmTargets,
+    status: number = textStatus(false)
+  ): Promise<void> {
+    const chunks = createTextChunks(lines, this.channel.packetSizes(targets).textChunk);
+
+    for (let packetIndex = 0; packetIndex < chunks.length; packetIndex++) {
+      const packet = encodeTextPacket({
+        sequence: this.channel.nextSequence(),
+        totalPackets: chunks.length,
+        currentPacket: packetIndex,
+        status,
+        currentPage: page + 1,
+        maxPages: pageCount
+      }, chunks[packetIndex]);
+
+      assertAcked(await this.channel.send(packet, targets), `Page ${page + 1}/${pageCount}, packet ${packetIndex + 1}/${chunks.length}`);
+    }
+  }
+
+  // Records what is on screen now, ending a document that was shown before
+  private show(content: DisplayedContent | null): void {
+    const previous = this.displayed;
+    this.displayed = content;
+    if (previous?.kind === 'document' && previous.document !== (content?.kind === 'document' ? content.document : null)) {
+      previous.document.end();
+    }
+  }
+
+  async sendLoadingAnimation(iterations: number = 5): Promise<void> {
+    const targets = this.channel.route('both');
+
+    const frames = [
+      '/', '-', '\\', '|',
+    ];
+
+    for (let i = 0; i < iterations; i++) {
+      for (const frame of frames) {
+        const lines = composeRegions([{ text: frame, x: 100, y: 100 }], this.channel.textLayout);
+        await this.sendPage(lines, 0, 1, targets, textStatus(true));
+        await new Promise(resolve => setTimeout(resolve, 150));
+      }
+    }
+  }
+
+  // Throws a G1Error when the glasses are not connected or an arm does not acknowledge
+  async clearScreen(): Promise<void> {
+    this.show(null);
+    assertAcked(await this.channel.send(encodeClearScreen(), this.channel.route('both')), 'Clearing the screen');
+  }
+
+  // Images
+  // Resolves false when cancelImageUpload() stopped the upload. Throws a G1Error when the
+  // glasses are not connected, an arm does not acknowledge a packet or the CRC does not match.
+  async sendBMPImage(imageData: BMPImageData): Promise<boolean> {
+    if (imageData.width !== BITMAP_WIDTH || imageData.height !== BITMAP_HEIGHT) {
+      throw new InvalidArgumentError(`Image must be ${BITMAP_WIDTH}x${BITMAP_HEIGHT} pixels, got ${imageData.width}x${imageData.height}`);
+    }
+
+    const targets = this.channel.route('both');
+    this.show({ kind: 'bitmap', image: imageData });
+    return await this.transmitBitmap(imageData, targets);
+  }
+
+  private async transmitBitmap(imageData: BMPImageData, targets: ArmTargets): Promise<boolean> {
+    const uploadId = ++this.bitmapUploadId;
+    const cancelled = () => uploadId !== this.bitmapUploadId;
+
+    try {
+      log.debug('Starting BMP transmission...');
+      const packets = encodeBitmapPackets(imageData.data, this.channel.packetSizes(targets).bitmapChunk);
+      log.debug('Created', packets.length, 'packets');
+
+      // Send packets sequentially - left side first, then right
+      for (let i = 0; i < packets.length; i++) {
+        if (cancelled()) {
+          log.info('BMP transmission cancelled');
+          return false;
+        }
+
+        log.debug(`Sending packet ${i + 1}/${packets.length}`);
+        assertAcked(await this.channel.sendSequentially(packets[i], targets, BITMAP_OPTIONS), `Image packet ${i + 1}/${packets.length}`);
+        await new Promise(resolve => setTimeout(resolve, 200)); // Increased delay
+      }
+
+      log.debug('Sending end command...');
+      assertAcked(await this.channel.sendSequentially(encodeBitmapEnd(), targets, BITMAP_OPTIONS), 'Image end command');
+
+      log.debug('Sending CRC check...');
+      assertCrcMatches(await this.channel.sendSequentially(encodeCrcCheck(bitmapCrc(imageData.data)), targets, BITMAP_OPTIONS));
+
+      log.info('BMP transmission complete');
+      return true;
+    } catch (error) {
+      // Cancelling drops the queued packets, which rejects the one waiting to go out
+      if (cancelled()) {
+        log.info('BMP transmission cancelled');
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Throws a G1Error when an arm does not acknowledge the display command or the CRC does not match
+  async showImage(imageData: BMPImageData): Promise<void> {
+    const targets = this.channel.route('both');
+
+    // Send command to display the buffered image
+    const displayCommand = encodeCommand({ command: 'SEND_BITMAP', index: 0, data: new Uint8Array() });
+    assertAcked(await this.channel.sendSequentially(displayCommand, targets, BITMAP_OPTIONS), 'Image display command');
+
+    log.debug('Sending CRC check...');
+    assertCrcMatches(await this.channel.sendSequentially(encodeCrcCheck(bitmapCrc(imageData.data)), targets, BITMAP_OPTIONS));
+
+    log.info('Image display complete');
+  }
+
+  // Stops a running sendBMPImage/showImage after the packet in flight
+  cancelImageUpload(): void {
+    this.bitmapUploadId++;
+    this.channel.cancelQueuedCommands(BITMAP_OPTIONS.tag);
+  }
+}
+
+// replace keeps what is on screen and draws over it; otherwise the screen is cleared first
+function textStatus(replace: boolean): number {
+  return replace ? SCREEN_STATUS.TEXT_SHOW : SCREEN_STATUS.NEW_CONTENT | SCREEN_STATUS.TEXT_SHOW;
+}
+
+// An arm that computed a different CRC answers the check with 0xCA
+function assertCrcMatches(results: CommandResult[]): void {
+  const mismatch = results.find(result => result.status === 'nacked');
+  if (mismatch) {
+    throw new CrcMismatchError(mismatch.side);
+  }
+  assertAcked(results, 'Image CRC check');
+}
+
+interface TextDocumentHost {
+  layout(text: string): string[][];
+  renderPage(lines: string[], page: number, pageCount: number, targets?: ArmTargets): Promise<void>;
+  close(document: TextDocument): Promise<void>;
+}
+
+// Handle to a document opened with DisplayService.openDocument. Pages are 0-based here;
+// the glasses show them 1-based.
+export class TextDocument {
+  private host: TextDocumentHost;
+  private pages: string[][];
+  private currentPage = 0;
+  private closed = false;
+  private rendering: Promise<void> = Promise.resolve();
+  private onPageChangeCallbacks: ((page: number, pageCount: number) => void)[] = [];
+  private onCloseCallbacks: (() => void)[] = [];
+
+  constructor(text: string, host: TextDocumentHost) {
+    this.host = host;
+    this.pages = this.paginate(text);
+  }
+
+  get page(): number {
+    return this.currentPage;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  async next(): Promise<void> {
+    await this.goTo(this.currentPage + 1);
+  }
+
+  async previous(): Promise<void> {
+    await this.goTo(this.currentPage - 1);
+  }
+
+  // Out-of-range pages are clamped; staying on the same page sends nothing
+  async goTo(page: number): Promise<void> {
+    const target = Math.min(Math.max(page, 0), this.pages.length - 1);
+    if (this.closed || target === this.currentPage) return;
+
+    this.currentPage = target;
+    await this.render();
+  }
+
+  // Replaces the text, keeping the current page where it still exists
+  async update(text: string): Promise<void> {
+    if (this.closed) return;
+
+    this.pages = this.paginate(text);
+    this.currentPage = Math.min(this.currentPage, this.pages.length - 1);
+    await this.render();
+  }
+
+  // Clears the screen unless something else has replaced the document already
+  async close(): Promise<void> {
+    if (this.closed) return;
+    await this.host.close(this);
+    this.end();
+  }
+
+  onPageChange(callback: (page: number, pageCount: number) => void): void {
+    this.onPageChangeCallbacks.push(callback);
+  }
+
+  onClose(callback: () => void): void {
+    this.onCloseCallbacks.push(callback);
+  }
+
+  // Renders are chained so quick taps show their pages in order
+  render(targets?: ArmTargets): Promise<void> {
+    const page = this.currentPage;
+    const lines = this.pages[page];
+    const pageCount = this.pages.length;
+
+    const rendering = this.rendering.catch(() => undefined).then(async () => {
+      if (this.closed) return;
+      await this.host.renderPage(lines, page, pageCount, targets);
+      this.onPageChangeCallbacks.forEach(callback => callback(page, pageCount));
+    });
+    this.rendering = rendering;
+    return rendering;
+  }
+
+  // Right tap forward, left tap back, double tap on either arm closes
+  handleTouch(event: G1DeviceEvent): void {
+    if (this.closed) return;
+
+    let action: Promise<void> | null = null;
+    if (event.type === 'doubleTap') {
+      action = this.close();
+    } else if (event.type === 'tap') {
+      action = event.side === 'right' ? this.next() : this.previous();
+    }
+    action?.catch(error => log.error(`Failed to handle a ${event.type} on the ${event.side} arm:`, error));
+  }
+
+  // Called once the document is no longer on screen
+  end(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onCloseCallbacks.forEach(callback => callback());
+  }
+
+  private paginate(text: string): string[][] {
+    const pages = this.host.layout(text);
+    return pages.length > 0 ? pages : [[]];
+  }
+}
@@ -0,0 +1,146 @@
+// Even AI: touchpad gestures, the right arm's microphone and AI answers on screen.
+
+import { G1CommandChannel } from '../channel';
+import { AudioPacket, decodeAudioPacket, encodeMicrophone } from '../codec';
+import { decodeDeviceEvent, G1DeviceEvent } from '../deviceEvents';
+import { assertAcked } from '../errors';
+import { createLogger } from '../logger';
+import { ArmSide } from '../transport';
+import { AIResponseWriter, AIStreamOptions } from './aiStream';
+
+const log = createLogger('ai');
+const audioLog = createLogger('audio');
+
+export interface TouchBarEvent {
+  type: 'single' | 'double' | 'triple';
+  side: ArmSide;
+}
+
+export interface AIResponse {
+  text: string;
+  totalPages?: number; // Ignored: pages are counted from the layout
+}
+
+export class EvenAIService {
+  private channel: G1CommandChannel;
+  private audioBuffer: AudioPacket[] = [];
+  private onTouchBarCallbacks: ((event: TouchBarEvent) => void)[] = [];
+  private onAudioDataCallbacks: ((packet: AudioPacket) => void)[] = [];
+  private onEvenAITriggerCallbacks: ((start: boolean, side: ArmSide) => void)[] = [];
+
+  constructor(channel: G1CommandChannel) {
+    this.channel = channel;
+    this.channel.onFrame((frame, side) => this.handleFrame(frame, side));
+  }
+
+  // The microphone sits in the right arm. These throw a G1Error when the right arm is
+  // unavailable or does not acknowledge.
+  async setMicrophone(enabled: boolean): Promise<void> {
+    const results = await this.channel.send(encodeMicrophone(enabled), this.channel.route('right'));
+    assertAcked(results, enabled ? 'Turning the microphone on' : 'Turning the microphone off');
+  }
+
+  async startEvenAI(): Promise<void> {
+    await this.setMicrophone(true);
+  }
+
+  async stopEvenAI(): Promise<void> {
+    await this.setMicrophone(false);
+  }
+
+  // Shows a complete answer, split into pages like a streamed one. Throws a G1Error when
+  // the glasses are not connected or an arm does not acknowledge a packet.
+  async sendAIResponse(response: AIResponse): Promise<void> {
+    const writer = this.createResponseWriter();
+    writer.append(response.text);
+    await writer.finish();
+  }
+
+  // Shows the answer while it is generated and resolves with the complete text. If tokens
+  // throws, the screen is left in the EVEN_AI_ERROR state and the error is rethrown.
+  async streamAIResponse(tokens: AsyncIterable<string>, options?: AIStreamOptions): Promise<string> {
+    const writer = this.createResponseWriter(options);
+    try {
+      for await (const token of tokens) {
+        writer.append(token);
+      }
+    } catch (error) {
+      await writer.fail();
+      throw error;
+    }
+
+    await writer.finish();
+    return writer.content;
+  }
+
+  // For answers that do not arrive as an AsyncIterable: append() tokens, then finish() or fail()
+  createResponseWriter(options?: AIStreamOptions): AIResponseWriter {
+    return new AIResponseWriter(this.channel, options);
+  }
+
+  // Event listeners
+  onTouchBar(callback: (event: TouchBarEvent) => void): void {
+    this.onTouchBarCallbacks.push(callback);
+  }
+
+  onAudioData(callback: (packet: AudioPacket) => void): void {
+    this.onAudioDataCallbacks.push(callback);
+  }
+
+  // start is true when the wearer holds the touchpad to talk to Even AI, false when they let go
+  onEvenAITrigger(callback: (start: boolean, side: ArmSide) => void): void {
+    this.onEvenAITriggerCallbacks.push(callback);
+  }
+
+  get audioBufferLength(): number {
+    return this.audioBuffer.length;
+  }
+
+  get recordedAudio(): AudioPacket[] {
+    return [...this.audioBuffer];
+  }
+
+  clearAudioBuffer(): void {
+    this.audioBuffer = [];
+  }
+
+  private handleFrame(frame: Uint8Array, side: ArmSide): void {
+    const event = decodeDeviceEvent(frame, side);
+    if (event) {
+      this.handleTouchBarEvent(event);
+      return;
+    }
+
+    const audio = decodeAudioPacket(frame);
+    if (audio) {
+      audioLog.debug(`Audio packet ${audio.sequence} from the ${side} arm, ${audio.data.length} bytes`);
+      this.audioBuffer.push(audio);
+      this.onAudioDataCallbacks.forEach(callback => callback(audio));
+    }
+  }
+
+  private handleTouchBarEvent(event: G1DeviceEvent): void {
+    let type: TouchBarEvent['type'];
+
+    switch (event.type) {
+      case 'tap':
+        type = 'single';
+        break;
+      case 'doubleTap':
+        type = 'double';
+        break;
+      case 'tripleTap':
+        type = 'triple';
+        break;
+      case 'aiStart':
+      case 'aiStop':
+        this.onEvenAITriggerCallbacks.forEach(callback => callback(event.type === 'aiStart', event.side));
+        return;
+      default:
+        return;
+    }
+
+    log.debug('Touchbar event received:', type, event.side);
+    this.onTouchBarCallbacks.forEach(callback => callback({ type, side: event.side }));
+  }
+}
@@ -0,0 +1,32 @@
+// Phone notifications, handled by the left arm.
+
+import { G1CommandChannel } from '../channel';
+import { encodeClearNotification, encodeNotification, NotificationData } from '../codec';
+import { assertAcked, PayloadTooLargeError } from '../errors';
+import { NOTIFICATION_HEADER_SIZE } from '../protocol';
+
+export class NotificationService {
+  private channel: G1CommandChannel;
+
+  constructor(channel: G1CommandChannel) {
+    this.channel = channel;
+  }
+
+  // These throw a G1Error when the left arm is unavailable or does not acknowledge
+  async sendNotification(notification: NotificationData): Promise<void> {
+    const targets = this.channel.route('left'); // Send to left arm only
+    const command = encodeNotification(notification);
+
+    const maxLength = this.channel.packetSizes(targets).notificationChunk;
+    const length = command.length - NOTIFICATION_HEADER_SIZE;
+    if (length > maxLength) {
+      throw new PayloadTooLargeError('Notification', length, maxLength);
+    }
+
+    assertAcked(await this.channel.send(command, targets), 'Notification');
+  }
+
+  async clearNotification(msgId: number): Promise<void> {
+    assertAcked(await this.channel.send(encodeClearNotification(msgId), this.channel.route('left')), 'Clearing the notification');
+  }
+}
@@ -0,0 +1,129 @@
+// Brightness, silent mode, battery and the serial number.
+// Brightness and silent mode are replayed onto an arm after it reconnects.
+
+import { CommandResult } from '../acks';
+import { ArmTargets, G1CommandChannel, G1Feature } from '../channel';
+import {
+  BatteryInfo,
+  decodeBattery,
+  decodeInbound,
+  encodeBatteryRequest,
+  encodeBrightness,
+  encodeCommand,
+  encodeSilentMode,
+  G1InboundMessage,
+  MAX_BRIGHTNESS
+} from '../codec';
+import { assertAcked, UnexpectedReplyError } from '../errors';
+import { createLogger } from '../logger';
+import { ArmSide } from '../transport';
+
+const log = createLogger('settings');
+
+export class SettingsService implements G1Feature {
+  private channel: G1CommandChannel;
+  private brightness: { level: number; autoMode: boolean } | null = null;
+  private silentMode: boolean | null = null;
+  private onBatteryUpdateCallbacks: ((battery: BatteryInfo, isLeft: boolean) => void)[] = [];
+
+  constructor(channel: G1CommandChannel) {
+    this.channel = channel;
+    this.channel.onFrame((frame, side) => this.handleFrame(frame, side));
+  }
+
+  async restore(targets: ArmTargets): Promise<void> {
+    // Brightness is only ever set through the right arm
+    if (this.brightness && targets.toRight) {
+      await this.channel.send(encodeBrightness(this.brightness.level, this.brightness.autoMode), { toLeft: false, toRight: true });
+    }
+    if (this.silentMode !== null) {
+      await this.channel.send(encodeSilentMode(this.silentMode), targets);
+    }
+  }
+
+  // These throw a G1Error when the glasses are not connected or an arm does not acknowledge
+  async setBrightness(brightness: number, autoMode: boolean = false): Promise<void> {
+    const level = Math.max(0, Math.min(MAX_BRIGHTNESS, Math.round(brightness)));
+    this.brightness = { level, autoMode };
+    assertAcked(await this.channel.send(encodeBrightness(level, autoMode), this.channel.route('right')), 'Setting the brightness');
+  }
+
+  async setSilentMode(enabled: boolean): Promise<void> {
+    this.silentMode = enabled;
+    assertAcked(await this.channel.send(encodeSilentMode(enabled), this.channel.route('both')), 'Setting silent mode');
+  }
+
+  // The levels arrive through onBatteryUpdate; getBattery returns them instead
+  async getBatteryStatus(): Promise<void> {
+    assertAcked(await this.channel.send(encodeBatteryRequest(), this.channel.route('both')), 'Battery request');
+  }
+
+  // Device queries
+  // Each resolves with the decoded reply and rejects when an arm does not answer
+  // within timeoutMs (the manager's ackTimeoutMs by default).
+
+  // Arms that are not connected report null
+  async getBattery(timeoutMs?: number): Promise<Record<ArmSide, BatteryInfo | null>> {
+    const results = await this.channel.send(encodeBatteryRequest(), this.channel.route('both'), { timeoutMs });
+
+    const battery: Record<ArmSide, BatteryInfo | null> = { left: null, right: null };
+    for (const result of results) {
+      battery[result.side] = queryReply(result, 'GET_BATTERY').battery;
+    }
+    return battery;
+  }
+
+  async getBrightness(timeoutMs?: number): Promise<{ level: number; autoMode: boolean }> {
+    const [result] = await this.channel.send(encodeCommand({ command: 'GET_BRIGHTNESS' }), this.channel.route('right'), { timeoutMs });
+    const { level, autoMode } = queryReply(result, 'GET_BRIGHTNESS');
+    return { level, autoMode };
+  }
+
+  // Both arms carry the serial of the glasses, so one is asked
+  async getSerialNumber(timeoutMs?: number): Promise<string> {
+    const { toLeft } = this.channel.route('both');
+    const targets = { toLeft, toRight: !toLeft };
+
+    const [result] = await this.channel.send(encodeCommand({ command: 'GET_SERIAL' }), targets, { timeoutMs });
+    return queryReply(result, 'GET_SERIAL').serial;
+  }
+
+  // Raw firmware info text per arm, see parseFirmwareInfo; arms that are not connected report null
+  async getFirmwareInfo(timeoutMs?: number): Promise<Record<ArmSide, string | null>> {
+    const results = await this.channel.send(encodeCommand({ command: 'GET_FIRMWARE_INFO' }), this.channel.route('both'), { timeoutMs });
+
+    const info: Record<ArmSide, string | null> = { left: null, right: null };
+    for (const result of results) {
+      info[result.side] = queryReply(result, 'GET_FIRMWARE_INFO').info;
+    }
+    return info;
+  }
+
+  onBatteryUpdate(callback: (battery: BatteryInfo, isLeft: boolean) => void): void {
+    this.onBatteryUpdateCallbacks.push(callback);
+  }
+
+  private handleFrame(frame: Uint8Array, side: ArmSide): void {
+    const battery = decodeBattery(frame);
+    if (!battery) return;
+
+    log.debug(`Battery update (${side}):`, battery);
+    this.onBatteryUpdateCallbacks.forEach(callback => callback(battery, side === 'left'));
+  }
+}
+
+function queryReply<K extends G1InboundMessage['command']>(
+  result: CommandResult | undefined,
+  command: K
+): Extract<G1InboundMessage, { command: K }> {
+  if (!result) {
+    throw new UnexpectedReplyError(`${command} query was not sent`);
+  }
+  assertAcked([result], `${command} query`);
+
+  const message = result.response && decodeInbound(result.response);
+  if (!message || message.command !== command) {
+    throw new UnexpectedReplyError(`Unexpected reply to ${command} from the ${result.side} arm`, result.side);
+  }
+  return message as Extract<G1InboundMessage, { command: K }>;
+}
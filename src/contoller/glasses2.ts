@@ -1,1009 +1,863 @@
-import { BleManager, Characteristic, Device, State } from 'react-native-ble-plx';
-import { BMPImageData, SCREEN_STATUS } from './glasses';
+import { AckOptions, AckTracker, CommandResult } from './acks';
+import { waitForBluetoothState } from './bluetoothReadiness';
+import { ArmTargets, G1CommandChannel, G1Feature, SendOptions } from './channel';
+import { BatteryInfo, encodeHeartbeat, encodeInit } from './codec';
+import { CommandPriority, CommandQueue, QueueMetrics } from './commandQueue';
+import { availableArms, ConnectionStateMachine, G1ConnectionState } from './connectionState';
+import { decodeDeviceEvent, describeDeviceEvent, G1DeviceEvent, G1DeviceStatus, INITIAL_DEVICE_STATUS, reduceDeviceStatus } from './deviceEvents';
+import { buildDeviceInfo, G1DeviceInfo } from './deviceInfo';
+import { ArmUnavailableError, assertAcked, bluetoothStateError, NotConnectedError, TimeoutError } from './errors';
+import { DashboardService } from './features/dashboard';
+import { DisplayService } from './features/display';
+import { EvenAIService } from './features/evenAI';
+import { NotificationService } from './features/notifications';
+import { SettingsService } from './features/settings';
+import { KnownGlassesStore, KnownPair, knownPairId } from './knownGlasses';
+import { LinkHealth, LinkHealthTracker } from './linkHealth';
+import { createLogger } from './logger';
+import { GlassesPair } from './pairing';
+import { COMMANDS, DEFAULT_MTU, PacketSizes, packetSizesForMtu, PREFERRED_MTU } from './protocol';
+import { G1Recording, recordingFromTraffic } from './replay';
+import { iterateScan, ScanOptions, ScanSession, ScanUpdate, watchForGlasses } from './scan';
+import { TextLayoutOptions } from './textLayout';
+import { toHex, TrafficRecorder } from './trafficRecorder';
+import { ArmSide, G1Link, G1Transport, TransportState, TransportSubscription } from './transport';
+
+const log = createLogger('core');
+const scanLog = createLogger('scan');
+const transportLog = createLogger('transport');
+const eventLog = createLogger('events');
 
 // Types
-export interface GlassesDeviceInfo {
-  id: string;
-  name: string;
-  rssi?: number;
-  isLeft?: boolean;
-  isRight?: boolean;
+export interface G1ManagerOptions {
+  ackTimeoutMs?: number; // How long to wait for an arm to reply to a command
+  retries?: number; // How many times a command is resent after a 0xCA reply
+  queueDepth?: number; // How many commands may wait per arm before new ones are refused
+  reconnectAttempts?: number; // Attempts per arm before giving up after a drop
+  reconnectBaseDelayMs?: number; // First reconnect delay, doubled on every attempt
+  reconnectMaxDelayMs?: number;
+  connectTimeoutMs?: number; // Per-arm limit for a single connection attempt
+  bluetoothStateTimeoutMs?: number; // How long an Unknown adapter state is waited out before giving up
+  preferredMtu?: number; // MTU requested from each arm after connecting
+  knownGlasses?: KnownGlassesStore; // Pairs connected through the manager are remembered here
+  trafficCapacity?: number; // Frames kept by the traffic recorder once it is enabled
+  recordTraffic?: boolean; // Enables the traffic recorder from the start, so captures include the connect handshake
+  heartbeatIntervalMs?: number; // The glasses drop the link after 32 s without one
+  maxMissedHeartbeats?: number; // Missed beats in a row before the arm is treated as gone and reconnected
+  textLayout?: TextLayoutOptions; // Fallback and transliteration for characters the G1 font cannot draw
 }
 
-export interface BatteryInfo {
-  percentage: number;
-  isCharging: boolean;
-  voltage?: number;
-}
-
-export interface NotificationData {
-  msg_id: number;
-  action: number;
-  app_identifier: string;
-  title: string;
-  subtitle?: string;
-  message: string;
-  time_s: number;
-  date: string;
-  display_name: string;
-}
-
-export interface WeatherData {
-  icon: number; // 0-16, see protocol doc
-  temperature: number;
-  isCelsius: boolean;
-  is24Hour: boolean;
-}
-
-// Constants from protocol
-const NORDIC_UART_SERVICE = '6e400001-b5a3-f393-e0a9-e50e24dcca9e';
-const NORDIC_UART_TX = '6e400002-b5a3-f393-e0a9-e50e24dcca9e'; // Write
-const NORDIC_UART_RX = '6e400003-b5a3-f393-e0a9-e50e24dcca9e'; // Notify
-
-// Command constants
-const COMMANDS = {
-  SET_BRIGHTNESS: 0x01,
-  SET_SILENT_MODE: 0x03,
-  SET_NOTIFICATION_APPS: 0x04,
-  SET_DASHBOARD: 0x06,
-  MICROPHONE_CONTROL: 0x0E,
-  SEND_BITMAP: 0x15,
-  CLEAR_SCREEN: 0x18,
-  SEND_QUICK_NOTE: 0x1E,
-  SEND_HARD_RESET: 0x23,
-  SEND_HEARTBEAT: 0x25,
-  GET_BRIGHTNESS: 0x29,
-  GET_BATTERY: 0x2C,
-  GET_SERIAL: 0x33,
-  SEND_UNPAIR: 0x47,
-  SEND_NOTIFICATION: 0x4B,
-  CLEAR_NOTIFICATION: 0x4C,
-  INIT: 0x4D,
-  SEND_TEXT: 0x4E,
-  SET_NOTIFICATION_AUTO_DISPLAY: 0x4F,
-  SEND_DASHBOARD_LOCK: 0x50,
-  GET_AUDIO_RECORDING: 0xF1,
-  SET_DEBUG_MODE: 0xF4,
-  DEVICE_EVENTS: 0xF5,
-  BMP_TRANSMISSION_END: [0x20, 0x0d, 0x0e],
-  CRC_CHECK: 0x16,
-
-};
-
-// Response constants
-const RESPONSE = {
-  SUCCESS: 0xC9,
-  FAILURE: 0xCA,
-  CONTINUE: 0xCB
-};
-
-export class EvenRealitiesG1Manager {
-  private bleManager: BleManager;
-  private leftDevice: Device | null = null;
-  private rightDevice: Device | null = null;
-  private leftTxCharacteristic: Characteristic | null = null;
-  private rightTxCharacteristic: Characteristic | null = null;
-  private isConnected = false;
+export type ConnectionEvent =
+  | { type: 'connected'; side: ArmSide }
+  | { type: 'disconnected'; side: ArmSide; error?: Error }
+  | { type: 'reconnecting'; side: ArmSide; attempt: number; delayMs: number }
+  | { type: 'reconnected'; side: ArmSide; attempts: number }
+  | { type: 'sessionRestored'; side: ArmSide }
+  | { type: 'reconnectFailed'; side: ArmSide; attempts: number; error?: Error };
+
+// Connection core of the SDK: scanning, connecting, per-arm queues, acknowledgements,
+// heartbeat and reconnection. Everything the glasses can do lives in the feature
+// services (display, settings, notifications, dashboard, ai), which send through
+// this class as their G1CommandChannel.
+export class EvenRealitiesG1Manager implements G1CommandChannel {
+  readonly display: DisplayService;
+  readonly settings: SettingsService;
+  readonly notifications: NotificationService;
+  readonly dashboard: DashboardService;
+  readonly ai: EvenAIService;
+  readonly traffic: TrafficRecorder; // Disabled until traffic.enabled or the recordTraffic option is set
+  readonly textLayout: TextLayoutOptions;
+  private features: G1Feature[];
+
+  private transport: G1Transport;
+  private leftLink: G1Link | null = null;
+  private rightLink: G1Link | null = null;
+  private armSubscriptions: Record<ArmSide, TransportSubscription[]> = { left: [], right: [] };
+  private deviceIds: Record<ArmSide, string | null> = { left: null, right: null };
+  private reconnecting: Record<ArmSide, boolean> = { left: false, right: false };
+  private userDisconnected = false;
+  private session = 0; // Bumped by disconnect(), so reconnects started before it stop
+  private reconnectAttempts: number;
+  private reconnectBaseDelayMs: number;
+  private reconnectMaxDelayMs: number;
+  private connectTimeoutMs: number;
+  private bluetoothStateTimeoutMs: number;
+  private preferredMtu: number;
+  private mtu: Record<ArmSide, number> = { left: DEFAULT_MTU, right: DEFAULT_MTU };
+  private knownGlasses: KnownGlassesStore | null;
+  private acks = new AckTracker();
+  private ackTimeoutMs: number;
+  private retries: number;
+  private queues: Record<ArmSide, CommandQueue>;
+  private stateMachine = new ConnectionStateMachine();
   private heartbeatInterval: any | null = null;
+  private heartbeatIntervalMs: number;
+  private maxMissedHeartbeats: number;
+  private health: Record<ArmSide, LinkHealthTracker> = { left: new LinkHealthTracker('left'), right: new LinkHealthTracker('right') };
   private sequenceNumber = 0;
   private heartbeatSequence = 0;
-  private batteryInfo: BatteryInfo | null = null;
-  private batteryInfoLeft: BatteryInfo | null = null;
-  private batteryInfoRight: BatteryInfo | null = null;
-  private lastEvent: any | null = null;
-  private isInCase: boolean = false;
-  private isCaseOpen: boolean = false;
-  private isGlassesWorn: boolean = false;
-  private isGlassesInBox: boolean = false;
-  private isGlassesCharging: boolean = false;
-  private isInSilentMode: boolean = false;
+  private status: G1DeviceStatus = INITIAL_DEVICE_STATUS;
+  private info: G1DeviceInfo | null = null;
 
   // Event listeners
-  private onDeviceEventCallbacks: ((event: any) => void)[] = [];
-  private onBatteryUpdateCallbacks: ((battery: BatteryInfo, isLeft: boolean) => void)[] = [];
-
-  constructor() {
-    this.bleManager = new BleManager();
+  private onDeviceEventCallbacks: ((event: G1DeviceEvent) => void)[] = [];
+  private onDeviceStatusChangeCallbacks: ((status: G1DeviceStatus, event: G1DeviceEvent) => void)[] = [];
+  private onFrameCallbacks: ((frame: Uint8Array, side: ArmSide) => void)[] = [];
+  private onConnectionEventCallbacks: ((event: ConnectionEvent) => void)[] = [];
+  private onLinkHealthChangeCallbacks: ((health: LinkHealth) => void)[] = [];
+  private onDeviceInfoChangeCallbacks: ((info: G1DeviceInfo | null) => void)[] = [];
+
+  constructor(transport: G1Transport, options: G1ManagerOptions = {}) {
+    this.transport = transport;
+    this.ackTimeoutMs = options.ackTimeoutMs ?? 2000;
+    this.retries = options.retries ?? 2;
+    this.queues = {
+      left: new CommandQueue(options.queueDepth),
+      right: new CommandQueue(options.queueDepth)
+    };
+    this.traffic = new TrafficRecorder(options.trafficCapacity, options.recordTraffic);
+    this.reconnectAttempts = options.reconnectAttempts ?? 6;
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1000;
+    this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? 30000;
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 10000;
+    this.bluetoothStateTimeoutMs = options.bluetoothStateTimeoutMs ?? 5000;
+    this.preferredMtu = options.preferredMtu ?? PREFERRED_MTU;
+    this.knownGlasses = options.knownGlasses ?? null;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 28000;
+    this.maxMissedHeartbeats = options.maxMissedHeartbeats ?? 3;
+    this.textLayout = options.textLayout ?? {};
+
+    this.display = new DisplayService(this);
+    this.settings = new SettingsService(this);
+    this.notifications = new NotificationService(this);
+    this.dashboard = new DashboardService(this);
+    this.ai = new EvenAIService(this);
+    this.features = [this.settings, this.display]; // The ones with state to restore after a reconnect
   }
 
   // Initialization
+  // Throws BluetoothOffError or PermissionDeniedError when Bluetooth cannot be used
   async initialize(): Promise<void> {
     try {
       const state = await this.getBluetoothState();
-      if (state !== State.PoweredOn) {
-        throw new Error(`Bluetooth is not powered on. Current state: ${state}`);
+      if (state !== 'PoweredOn') {
+        throw bluetoothStateError(state);
       }
-      console.log('BLE Manager initialized successfully');
+      log.info('BLE Manager initialized successfully');
     } catch (error) {
-      console.error('Failed to initialize BLE Manager:', error);
+      log.error('Failed to initialize BLE Manager:', error);
       throw error;
     }
   }
 
-  private async getBluetoothState(): Promise<State> {
-    const state = await this.bleManager.state();
-    if (state !== State.Unknown) {
-      return state;
-    }
-
-    return new Promise<State>((resolve) => {
-      const subscription = this.bleManager.onStateChange((newState) => {
-        subscription.remove();
-        resolve(newState);
-      });
-    });
+  private async getBluetoothState(): Promise<TransportState> {
+    return await waitForBluetoothState(this.transport, this.bluetoothStateTimeoutMs);
   }
 
   // Device Scanning
-  async scanForGlasses(timeoutMs: number = 10000): Promise<GlassesDeviceInfo[]> {
-    try {
-      await this.getBluetoothState();
-      const devices: Map<string, GlassesDeviceInfo> = new Map();
-
-      console.log('Starting scan for G1 glasses...');
-
-      this.bleManager.startDeviceScan(null, null, (error, device) => {
-        if (error) {
-          console.error('Scan error:', error);
-          return;
-        }
-
-        if (device && device.name) {
-          // Filter for G1 glasses - adjust this pattern based on actual device names
-          if (device.name.includes('G1') || device.name.includes('Even') || device.name.includes('Realities')) {
-            const deviceInfo: GlassesDeviceInfo = {
-              id: device.id,
-              name: device.name,
-              rssi: device.rssi ?? undefined,
-              isLeft: device.name.toLowerCase().includes('l') || device.name.toLowerCase().includes('left'),
-              isRight: device.name.toLowerCase().includes('r') || device.name.toLowerCase().includes('right')
-            };
-            
-            devices.set(device.id, deviceInfo);
-            console.log('Found G1 ' + (deviceInfo.isLeft ? 'left' : 'right') + ' device: ' + deviceInfo.name);
-          }
-        }
-      });
+  // Returns the complete left/right pairs seen during the scan, strongest signal first.
+  // By default the scan ends as soon as the first complete pair shows up.
+  async scanForGlasses(timeoutMs: number = 10000, stopOnPair: boolean = true): Promise<GlassesPair[]> {
+    const state = await this.getBluetoothState();
+    if (state !== 'PoweredOn') {
+      throw bluetoothStateError(state);
+    }
 
-      // Stop scanning after timeout
-      await new Promise(resolve => setTimeout(resolve, timeoutMs));
-      this.bleManager.stopDeviceScan();
+    scanLog.info('Starting scan for G1 glasses...');
+    const session = this.watchForGlasses((update) => {
+      if (update.type === 'found') {
+        scanLog.info(`Found G1 ${update.arm.side} device on channel ${update.arm.channel}: ${update.arm.name}`);
+      }
+    }, { timeoutMs, stopOnPair });
 
-      const deviceList = Array.from(devices.values());
-      console.log(`Scan completed. Found ${deviceList.length} G1 devices`);
-      return deviceList;
+    try {
+      const pairs = await session.finished;
+      scanLog.info(`Scan completed. Found ${pairs.length} pairs`);
+      return pairs;
     } catch (error) {
-      console.error('Failed to scan for glasses:', error);
-      this.bleManager.stopDeviceScan();
+      scanLog.error('Failed to scan for glasses:', error);
       throw error;
     }
   }
 
+  // Streams arms as they are found; stop() or the options' stop token ends the scan early
+  watchForGlasses(onUpdate: (update: ScanUpdate) => void, options: ScanOptions = {}): ScanSession {
+    const scanningFromIdle = this.stateMachine.state.status === 'idle';
+    if (scanningFromIdle) {
+      this.stateMachine.transition({ status: 'scanning' });
+    }
+
+    const session = watchForGlasses(this.transport, onUpdate, options);
+    const backToIdle = () => {
+      if (scanningFromIdle && this.stateMachine.state.status === 'scanning') {
+        this.stateMachine.transition({ status: 'idle' });
+      }
+    };
+    session.finished.then(backToIdle, backToIdle);
+
+    return session;
+  }
+
+  // Async-iterator form of watchForGlasses; breaking out of the loop stops the scan
+  scan(options: ScanOptions = {}): AsyncGenerator<ScanUpdate, GlassesPair[]> {
+    return iterateScan(onUpdate => this.watchForGlasses(onUpdate, options));
+  }
+
   // Connection Management
-  async connectToGlasses(leftDeviceId: string, rightDeviceId: string): Promise<boolean> {
+  // Resolves once at least one arm is usable. If only one arm connects the pair
+  // starts out degraded and the missing arm is retried in the background. Throws
+  // (a G1Error where the cause is known) when neither arm can be set up.
+  async connectToGlasses(pair: GlassesPair): Promise<void>;
+  async connectToGlasses(leftDeviceId: string, rightDeviceId: string): Promise<void>;
+  async connectToGlasses(pairOrLeftId: GlassesPair | string, rightId?: string): Promise<void> {
+    const leftDeviceId = typeof pairOrLeftId === 'string' ? pairOrLeftId : pairOrLeftId.left.id;
+    const rightDeviceId = typeof pairOrLeftId === 'string' ? rightId! : pairOrLeftId.right.id;
+
+    if (!['idle', 'scanning'].includes(this.stateMachine.state.status)) {
+      await this.disconnect();
+    }
+
     try {
-      console.log('Connecting to glasses...');
+      log.info('Connecting to glasses...');
+      this.userDisconnected = false;
+      this.session++;
+      this.deviceIds = { left: leftDeviceId, right: rightDeviceId };
+      this.stateMachine.transition({ status: 'connecting', pending: ['left', 'right'] });
       
       // Connect to both devices
-      [this.leftDevice, this.rightDevice] = await Promise.all([
-        this.connectToDevice(leftDeviceId),
-        this.connectToDevice(rightDeviceId)
-      ]);
+      const sides: ArmSide[] = ['left', 'right'];
+      const outcomes = await Promise.allSettled(sides.map(async (side) => {
+        const link = await this.connectToDevice(this.deviceIds[side]!);
+        this.setLink(side, link);
+
+        const state = this.stateMachine.state;
+        if (state.status === 'connecting') {
+          this.stateMachine.transition({ status: 'connecting', pending: state.pending.filter(s => s !== side) });
+        }
+      }));
+
+      const connectedSides = sides.filter((side, i) => outcomes[i].status === 'fulfilled');
+      if (connectedSides.length === 0) {
+        throw (outcomes[0] as PromiseRejectedResult).reason;
+      }
+
+      this.stateMachine.transition({ status: 'initializing' });
 
       // Discover services and characteristics
-      await this.setupCharacteristics();
+      await Promise.all(connectedSides.map(side => this.setupCharacteristics(side)));
       
       // Setup notifications
-      await this.setupNotifications();
+      for (const side of connectedSides) {
+        await this.setupNotifications(side);
+      }
 
       // Send initial commands
-      await this.sendInitialCommands();
+      if (this.leftLink) {
+        await this.sendInitialCommands();
+      }
 
       // Start heartbeat
       this.startHeartbeat();
 
-      this.isConnected = true;
-      console.log('Successfully connected to G1 glasses');
-      return true;
+      log.info('Successfully connected to G1 glasses');
+      this.updateArmState();
+      connectedSides.forEach(side => this.emitConnectionEvent({ type: 'connected', side }));
+
+      sides.filter(side => !connectedSides.includes(side)).forEach((side) => {
+        const reason = (outcomes[sides.indexOf(side)] as PromiseRejectedResult).reason;
+        log.warn(`The ${side} arm did not connect, continuing with one arm:`, reason);
+        this.emitConnectionEvent({ type: 'disconnected', side, error: reason });
+        this.startReconnect(side);
+      });
+
+      await this.rememberConnection(pairOrLeftId, rightDeviceId);
+
+      // Best effort, the connection is usable without it
+      this.refreshDeviceInfo().catch(error => log.warn('Failed to read device info:', error));
     } catch (error) {
-      console.error('Failed to connect to glasses:', error);
+      log.error('Failed to connect to glasses:', error);
       await this.disconnect();
-      return false;
+      throw error;
     }
   }
 
-  private async connectToDevice(deviceId: string): Promise<Device> {
-    console.log(`Connecting to device: ${deviceId}`);
-    const device = await this.bleManager.connectToDevice(deviceId);
-    await device.discoverAllServicesAndCharacteristics();
-    return device;
-  }
+  // Launch path: connects to remembered pairs by ID, most recently used first, without scanning.
+  // Resolves with the pair that connected, or null when none is reachable and a scan is needed.
+  async connectToKnownGlasses(): Promise<KnownPair | null> {
+    if (!this.knownGlasses) return null;
 
-  private async setupCharacteristics(): Promise<void> {
-    if (!this.leftDevice || !this.rightDevice) {
-      throw new Error('Devices not connected');
+    const known = await this.knownGlasses.list();
+    for (const pair of known) {
+      log.info(`Trying remembered glasses G1 #${pair.channel}${pair.nickname ? ` (${pair.nickname})` : ''}`);
+      try {
+        await this.connectToGlasses(pair.left.id, pair.right.id);
+        return pair;
+      } catch (error) {
+        log.info(`G1 #${pair.channel} is not reachable:`, error);
+      }
     }
+    return null;
+  }
 
-    // Get TX characteristics for writing
-    const leftServices = await this.leftDevice.services();
-    const rightServices = await this.rightDevice.services();
+  private async rememberConnection(pairOrLeftId: GlassesPair | string, rightDeviceId: string): Promise<void> {
+    if (!this.knownGlasses) return;
 
-    const leftUartService = leftServices.find(s => s.uuid.toLowerCase() === NORDIC_UART_SERVICE.toLowerCase());
-    const rightUartService = rightServices.find(s => s.uuid.toLowerCase() === NORDIC_UART_SERVICE.toLowerCase());
+    try {
+      if (typeof pairOrLeftId !== 'string') {
+        await this.knownGlasses.remember(pairOrLeftId);
+        return;
+      }
 
-    if (!leftUartService || !rightUartService) {
-      throw new Error('UART service not found on devices');
+      await this.knownGlasses.markSeen(knownPairId(pairOrLeftId, rightDeviceId));
+    } catch (error) {
+      // Remembering is best effort; the connection itself is fine
+      log.warn('Failed to remember glasses:', error);
     }
+  }
 
-    const leftChars = await leftUartService.characteristics();
-    const rightChars = await rightUartService.characteristics();
+  private async connectToDevice(deviceId: string): Promise<G1Link> {
+    transportLog.info(`Connecting to device: ${deviceId}`);
+    return await this.transport.connect(deviceId, this.connectTimeoutMs);
+  }
 
-    this.leftTxCharacteristic = leftChars.find(c => c.uuid.toLowerCase() === NORDIC_UART_TX.toLowerCase()) || null;
-    this.rightTxCharacteristic = rightChars.find(c => c.uuid.toLowerCase() === NORDIC_UART_TX.toLowerCase()) || null;
+  private linkFor(side: ArmSide): G1Link | null {
+    return side === 'left' ? this.leftLink : this.rightLink;
+  }
 
-    if (!this.leftTxCharacteristic || !this.rightTxCharacteristic) {
-      throw new Error('TX characteristics not found');
+  private setLink(side: ArmSide, link: G1Link | null): void {
+    if (side === 'left') {
+      this.leftLink = link;
+    } else {
+      this.rightLink = link;
     }
   }
 
-  private async setupNotifications(): Promise<void> {
-    if (!this.leftDevice || !this.rightDevice) return;
+  private async setupCharacteristics(side: ArmSide): Promise<void> {
+    const link = this.linkFor(side);
+    if (!link) {
+      throw new ArmUnavailableError(side);
+    }
 
-    // Setup notifications for RX characteristics
-    await this.leftDevice.monitorCharacteristicForService(
-      NORDIC_UART_SERVICE,
-      NORDIC_UART_RX,
-      (error, characteristic) => {
-        if (error) {
-          console.error('Left device notification error:', error);
-          return;
-        }
-        if (characteristic?.value) {
-          this.handleNotification(characteristic.value, true);
-        }
-      }
-    );
+    // Resolve the UART TX characteristic for writing
+    await link.discoverUart();
 
-    await this.rightDevice.monitorCharacteristicForService(
-      NORDIC_UART_SERVICE,
-      NORDIC_UART_RX,
-      (error, characteristic) => {
-        if (error) {
-          console.error('Right device notification error:', error);
-          return;
-        }
-        if (characteristic?.value) {
-          this.handleNotification(characteristic.value, false);
-        }
-      }
-    );
+    // Packet sizes follow the MTU; if negotiation fails the default MTU still works, just slower
+    try {
+      this.mtu[side] = await link.requestMtu(this.preferredMtu);
+    } catch (error) {
+      transportLog.warn(`MTU negotiation failed on the ${side} arm, using ${DEFAULT_MTU}:`, error);
+      this.mtu[side] = DEFAULT_MTU;
+    }
+    transportLog.info(`${side} arm MTU: ${this.mtu[side]}`);
   }
 
-  private handleNotification(data: string, isLeft: boolean): void {
-    const bytes = this.base64ToUint8Array(data);
-    const command = bytes[0];
+  // Frames sent to several arms are built once, so they must fit the smallest MTU among them
+  packetSizes({ toLeft, toRight }: ArmTargets): PacketSizes {
+    const mtus = [toLeft && this.mtu.left, toRight && this.mtu.right].filter((mtu): mtu is number => !!mtu);
+    return packetSizesForMtu(mtus.length > 0 ? Math.min(...mtus) : DEFAULT_MTU);
+  }
 
-    //console.log(`Received from ${isLeft ? 'left' : 'right'}:`, Array.from(bytes).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
+  private async setupNotifications(side: ArmSide): Promise<void> {
+    const link = this.linkFor(side);
+    if (!link) return;
 
-    switch (command) {
-      case COMMANDS.DEVICE_EVENTS:
-        this.handleDeviceEvent(bytes);
-        break;
-      case COMMANDS.GET_BATTERY:
-        this.handleBatteryUpdate(bytes, isLeft);
-        break;
-      // Add more cases as needed
-    }
+    // Setup notifications for the RX characteristic and watch for the arm dropping
+    this.armSubscriptions[side].push(
+      link.monitor(
+        (bytes) => this.handleNotification(bytes, side === 'left'),
+        (error) => transportLog.error(`${side === 'left' ? 'Left' : 'Right'} device notification error:`, error)
+      ),
+      link.onDisconnected((error) => this.handleArmDisconnected(side, error))
+    );
   }
 
-  private handleDeviceEvent(bytes: Uint8Array): void {
-    if (bytes.length < 2) return;
-    
-    const subCommand = bytes[1];
-    const eventData = {
-      type: subCommand,
-      data: bytes.slice(2)
-    };
+  // Forgets everything tied to the arm's current link
+  private teardownArm(side: ArmSide): void {
+    this.armSubscriptions[side].forEach(subscription => subscription.remove());
+    this.armSubscriptions[side] = [];
+    this.queues[side].cancel();
+    this.acks.cancelAll(side);
+    this.setLink(side, null);
+    this.mtu[side] = DEFAULT_MTU;
+    this.health[side].reset();
+    this.emitLinkHealth(side);
+  }
+
+  private handleArmDisconnected(side: ArmSide, error: Error | null): void {
+    if (this.userDisconnected || !this.linkFor(side)) return;
+
+    transportLog.warn(`The ${side} arm disconnected:`, error);
+    this.teardownArm(side);
+    this.emitConnectionEvent({ type: 'disconnected', side, error: error ?? undefined });
+
+    // A drop while connecting fails connectToGlasses instead, and a failed manager waits for
+    // the app to disconnect or connect again
+    if (['connecting', 'initializing', 'failed'].includes(this.stateMachine.state.status)) return;
+
+    this.updateArmState();
+    this.startReconnect(side);
+  }
+
+  // Derives ready/degraded/reconnecting/idle from the links that are up and
+  // the arms that are still being reconnected
+  private updateArmState(): void {
+    const left = !!this.leftLink && !this.reconnecting.left;
+    const right = !!this.rightLink && !this.reconnecting.right;
+    const reconnecting = this.reconnecting.left || this.reconnecting.right;
+
+    let next: G1ConnectionState;
+    if (left && right) {
+      next = { status: 'ready' };
+    } else if (!left && !right) {
+      next = reconnecting ? { status: 'reconnecting', available: 'none' } : { status: 'idle' };
+    } else {
+      const available = left ? 'leftOnly' : 'rightOnly';
+      next = reconnecting ? { status: 'reconnecting', available } : { status: 'degraded', available };
+    }
 
-    console.log('Device event:', this.mapTypeToCommand(eventData.type));
-    this.onDeviceEventCallbacks.forEach(callback => callback(eventData));
+    if (JSON.stringify(next) !== JSON.stringify(this.stateMachine.state)) {
+      this.stateMachine.transition(next);
+    }
   }
 
-  private handleBatteryUpdate(bytes: Uint8Array, isLeft: boolean): void {
-    if (bytes.length < 4) return;
-
-    const batteryInfo: BatteryInfo = {
-      percentage: bytes[3],
-      isCharging: (bytes[2] & 0x01) !== 0,
-      voltage: bytes.length > 4 ? (bytes[4] << 8 | bytes[5]) : undefined
-    };
+  // Reconnects run in the background; an error they cannot handle leaves the manager failed
+  private startReconnect(side: ArmSide): void {
+    this.reconnectArm(side).catch((error) => {
+      log.error(`Reconnecting the ${side} arm failed:`, error);
+      this.fail(error as Error);
+    });
+  }
 
-    console.log(`Battery update (${isLeft ? 'left' : 'right'}):`, batteryInfo);
-    this.onBatteryUpdateCallbacks.forEach(callback => callback(batteryInfo, isLeft));
+  private fail(error: Error): void {
+    if (this.stateMachine.canTransition('failed')) {
+      this.stopHeartbeat();
+      this.stateMachine.transition({ status: 'failed', error });
+    }
   }
 
-  // Command sending
-  private async sendCommand(data: Uint8Array, toLeft: boolean = true, toRight: boolean = true): Promise<void> {
-    const promises: Promise<void>[] = [];
+  // Reconnects a dropped arm with exponential backoff, then replays the session onto it.
+  // Stops at the first await that finds disconnect() was called meanwhile; disconnect()
+  // has then torn down whatever link this attempt had set up.
+  private async reconnectArm(side: ArmSide): Promise<void> {
+    const deviceId = this.deviceIds[side];
+    if (!deviceId || this.reconnecting[side]) return;
+    this.reconnecting[side] = true;
+    this.updateArmState();
 
-    if (toLeft && this.leftTxCharacteristic) {
-      promises.push(this.writeToCharacteristic(this.leftTxCharacteristic, data));
-    }
-    
-    if (toRight && this.rightTxCharacteristic) {
-      promises.push(this.writeToCharacteristic(this.rightTxCharacteristic, data));
-    }
+    const session = this.session;
+    const cancelled = () => session !== this.session;
 
-    await Promise.all(promises);
-  }
+    let lastError: Error | undefined;
+    try {
+      for (let attempt = 1; attempt <= this.reconnectAttempts; attempt++) {
+        const delayMs = Math.min(this.reconnectBaseDelayMs * 2 ** (attempt - 1), this.reconnectMaxDelayMs);
+        this.emitConnectionEvent({ type: 'reconnecting', side, attempt, delayMs });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        if (cancelled()) return;
+
+        try {
+          const link = await this.connectToDevice(deviceId);
+          if (cancelled()) {
+            await link.disconnect().catch(() => undefined);
+            return;
+          }
+          this.setLink(side, link);
 
-  private async writeToCharacteristic(characteristic: Characteristic, data: Uint8Array): Promise<void> {
-    const base64Data = this.uint8ArrayToBase64(data);
-    await characteristic.writeWithResponse(base64Data);
-  }
+          await this.setupCharacteristics(side);
+          if (cancelled()) return;
+          await this.setupNotifications(side);
+          if (this.leftLink) {
+            await this.sendInitialCommands();
+          }
+          if (cancelled()) return;
+        } catch (error) {
+          if (cancelled()) return;
+          lastError = error as Error;
+          transportLog.warn(`Reconnect attempt ${attempt} for the ${side} arm failed:`, error);
+          const link = this.linkFor(side);
+          this.teardownArm(side);
+          await link?.disconnect().catch(() => undefined);
+          continue;
+        }
 
-  // Public API Methods
-  async sendNotification(notification: NotificationData): Promise<void> {
-    const notificationObj = {
-      ncs_notification: notification
-    };
-    
-    const jsonString = JSON.stringify(notificationObj);
-    const jsonBytes = new TextEncoder().encode(jsonString);
-    
-    if (jsonBytes.length > 180) {
-      throw new Error('Notification payload too large');
-    }
+        this.reconnecting[side] = false;
+        this.updateArmState();
+        this.emitConnectionEvent({ type: 'reconnected', side, attempts: attempt });
 
-    const command = new Uint8Array(4 + jsonBytes.length);
-    command[0] = COMMANDS.SEND_NOTIFICATION;
-    command[1] = 0x00; // Pad
-    command[2] = 0x01; // Chunk count
-    command[3] = 0x00; // Chunk index
-    command.set(jsonBytes, 4);
+        await this.restoreSession(side);
+        if (cancelled()) return;
+        this.emitConnectionEvent({ type: 'sessionRestored', side });
+        return;
+      }
 
-    await this.sendCommand(command, true, false); // Send to left arm only
+      this.emitConnectionEvent({ type: 'reconnectFailed', side, attempts: this.reconnectAttempts, error: lastError });
+    } finally {
+      // After a disconnect() the state belongs to whatever session came next
+      if (!cancelled()) {
+        this.reconnecting[side] = false;
+        if (!this.userDisconnected) {
+          this.updateArmState();
+        }
+      }
+    }
   }
 
-  async clearNotification(msgId: number): Promise<void> {
-    const command = new Uint8Array(5);
-    command[0] = COMMANDS.CLEAR_NOTIFICATION;
-    command[1] = (msgId >> 24) & 0xFF;
-    command[2] = (msgId >> 16) & 0xFF;
-    command[3] = (msgId >> 8) & 0xFF;
-    command[4] = msgId & 0xFF;
+  // Lets every feature reapply its state (brightness, silent mode, screen content) to one arm
+  private async restoreSession(side: ArmSide): Promise<void> {
+    const targets = { toLeft: side === 'left', toRight: side === 'right' };
 
-    await this.sendCommand(command, true, false); // Send to left arm only
+    for (const feature of this.features) {
+      try {
+        await feature.restore?.(targets);
+      } catch (error) {
+        transportLog.error(`Failed to restore the session on the ${side} arm:`, error);
+      }
+    }
   }
-  
 
-  private splitTextIntoLines(text: string): string[] {
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-
-      // Rough character width calculation based on display width and font size
-      if (testLine.length * (21 * 0.6) <= 488) {
-        currentLine = testLine;
-      } else {
-        if (currentLine) {
-          lines.push(currentLine);
-          currentLine = word;
-        } else {
-          lines.push(word);
-        }
+  // Works out which arms a command goes to. Commands for both arms go to whichever
+  // arms are available; single-arm commands are refused when their arm is missing.
+  route(target: ArmSide | 'both'): ArmTargets {
+    const available = availableArms(this.stateMachine.state);
+
+    if (target === 'both') {
+      if (!available.left && !available.right) {
+        throw new NotConnectedError();
       }
+      return { toLeft: available.left, toRight: available.right };
     }
 
-    if (currentLine) {
-      lines.push(currentLine);
+    if (!available[target]) {
+      throw new ArmUnavailableError(target);
     }
+    return { toLeft: target === 'left', toRight: target === 'right' };
+  }
+
+  private emitConnectionEvent(event: ConnectionEvent): void {
+    this.onConnectionEventCallbacks.forEach(callback => callback(event));
+  }
 
-    return lines;
+  private setDeviceInfo(info: G1DeviceInfo | null): void {
+    if (info === this.info) return;
+    this.info = info;
+    this.onDeviceInfoChangeCallbacks.forEach(callback => callback(info));
   }
-  private splitIntoScreens(lines: string[]): string[][] {
-    const screens: string[][] = [];
 
-    for (let i = 0; i < lines.length; i += 5) {
-      screens.push(lines.slice(i, i + 5));
+  private emitLinkHealth(side: ArmSide): void {
+    const health = this.health[side].current;
+    this.onLinkHealthChangeCallbacks.forEach(callback => callback(health));
+  }
+
+  private handleNotification(bytes: Uint8Array, isLeft: boolean): void {
+    const side: ArmSide = isLeft ? 'left' : 'right';
+    this.traffic.record('rx', side, bytes);
+    if (transportLog.isEnabled('debug')) {
+      transportLog.debug(`RX ${side}: ${toHex(bytes)}`);
     }
+    this.acks.handleResponse(side, bytes);
 
-    return screens;
+    const event = decodeDeviceEvent(bytes, side);
+    if (event) {
+      this.handleDeviceEvent(event);
+    }
+    this.onFrameCallbacks.forEach(callback => callback(bytes, side));
   }
 
-  private createTextPackets(lines: string[]): Uint8Array[] {
-    const packets: Uint8Array[] = [];
-    const text = lines.join('\n');
-    const textBytes = new TextEncoder().encode(text);
+  private handleDeviceEvent(event: G1DeviceEvent): void {
+    eventLog.debug(`Device event (${event.side}):`, describeDeviceEvent(event));
 
-    for (let i = 0; i < textBytes.length; i += 194 - 10) { // Reserve space for headers
-      const chunk = textBytes.slice(i, i + 194 - 10);
-      packets.push(chunk);
+    const previous = this.status;
+    this.status = reduceDeviceStatus(previous, event);
+
+    // Even AI takes over the screen while the wearer holds the touchpad
+    if (event.type === 'aiStart' || event.type === 'aiStop') {
+      this.display.clearScreen().catch(error => log.error('Failed to clear screen:', error));
     }
 
-    return packets;
+    this.onDeviceEventCallbacks.forEach(callback => callback(event));
+    if (this.status !== previous) {
+      this.onDeviceStatusChangeCallbacks.forEach(callback => callback(this.status, event));
+    }
   }
 
-  private createTextPacket(
+  // Command sending
+  // Queues the command on each targeted arm and resolves with one result per arm
+  // once each arm has replied (or timed out)
+  async send(
     data: Uint8Array,
-    currentPacket: number,
-    totalPackets: number,
-    currentPage: number,
-    maxPages: number
-  ): Uint8Array {
-    const sequence = this.sequenceNumber++;
-    const newScreen = SCREEN_STATUS.NEW_CONTENT | SCREEN_STATUS.TEXT_SHOW;
-
-    const header = new Uint8Array([
-      COMMANDS.SEND_TEXT,
-      sequence,
-      totalPackets,
-      currentPacket,
-      newScreen,
-      0, // new_char_pos0
-      0, // new_char_pos1
-      currentPage,
-      maxPages
-    ]);
-
-    const result = new Uint8Array(header.length + data.length);
-    result.set(header);
-    result.set(data, header.length);
-    return result;
-  }
-
-  async sendText(text: string, x: number = 0, y: number = 0, replace: boolean): Promise<boolean> {
-    if (!this.isConnected) return false;
-    console.log('Sending text:', text);
-    const lines = this.splitTextIntoLines(text);
-    console.log('Lines:', lines);
-    const screens = this.splitIntoScreens(lines);
-    console.log('Screens:', screens);
-
-    // Calculate display parameters
-    const DISPLAY_WIDTH = 488;
-    const FONT_SIZE = 21;
-    const LINES_PER_SCREEN = 5;
-    const LINE_HEIGHT = FONT_SIZE * 1.2; // Add some spacing between lines
-
-    for (let screenIndex = 0; screenIndex < screens.length; screenIndex++) {
-      const packets = this.createTextPackets(screens[screenIndex]);
-
-      for (let packetIndex = 0; packetIndex < packets.length; packetIndex++) {
-        const screenStatus = replace ? 
-          SCREEN_STATUS.TEXT_SHOW : // Just show text without clearing
-          SCREEN_STATUS.NEW_CONTENT | SCREEN_STATUS.TEXT_SHOW; // Clear and show new text
-
-        const packet = this.createTextPacket(
-          packets[packetIndex],
-          packetIndex,
-          packets.length,
-          screenIndex,
-          screens.length
-        );
-
-        // Override the screen status in the packet
-        packet[4] = screenStatus;
-
-        // Calculate position based on screen index and line number
-        const screenY = y + (screenIndex * LINES_PER_SCREEN * LINE_HEIGHT);
-        
-        // Ensure x position is within display width
-        const adjustedX = Math.min(x, DISPLAY_WIDTH - (FONT_SIZE * 0.6)); // 0.6 is approximate character width ratio
-        
-        // Set position in packet
-        packet[5] = adjustedX & 0xFF; // x position LSB
-        packet[6] = (adjustedX >> 8) & 0xFF; // x position MSB
-        packet[7] = screenY & 0xFF; // y position LSB
-        packet[8] = (screenY >> 8) & 0xFF; // y position MSB
-
-        await this.sendCommand(packet);
-        await new Promise(resolve => setTimeout(resolve, 150));
-      }
+    { toLeft, toRight }: ArmTargets = { toLeft: true, toRight: true },
+    options: SendOptions = {}
+  ): Promise<CommandResult[]> {
+    const promises: Promise<CommandResult>[] = [];
+    const priority = options.priority ?? this.defaultPriority(data[0]);
+
+    if (toLeft && this.leftLink) {
+      const link = this.leftLink;
+      promises.push(this.queues.left.enqueue(() => this.writeWithAck(link, 'left', data, options), priority, options.tag));
+    }
+    
+    if (toRight && this.rightLink) {
+      const link = this.rightLink;
+      promises.push(this.queues.right.enqueue(() => this.writeWithAck(link, 'right', data, options), priority, options.tag));
     }
 
-    return true;
+    return await Promise.all(promises);
   }
 
-  async sendLoadingAnimation(iterations: number = 5): Promise<void> {
-    if (!this.isConnected) return;
-
-    const frames = [
-      '/', '-', '\\', '|', 
+  // Sends to the left arm first and to the right arm once the left has replied
+  async sendSequentially(data: Uint8Array, { toLeft, toRight }: ArmTargets, options: SendOptions = {}): Promise<CommandResult[]> {
+    return [
+      ...(toLeft ? await this.send(data, { toLeft: true, toRight: false }, options) : []),
+      ...(toRight ? await this.send(data, { toLeft: false, toRight: true }, options) : [])
     ];
+  }
 
-    for (let i = 0; i < iterations; i++) {
-      for (const frame of frames) {
-        const packet = this.createTextPacket(
-          new TextEncoder().encode(frame),
-          0, // Single packet
-          1, // Total packets
-          0, // Single screen
-          1  // Total screens
-        );
-
-        // Set screen status to just show text without clearing
-        packet[4] = SCREEN_STATUS.TEXT_SHOW;
-
-        // Set x,y position to 100,100
-        packet[5] = 100 & 0xFF; // x LSB
-        packet[6] = (100 >> 8) & 0xFF; // x MSB  
-        packet[7] = 100 & 0xFF; // y LSB
-        packet[8] = (100 >> 8) & 0xFF; // y MSB
-
-        await this.sendCommand(packet);
-        await new Promise(resolve => setTimeout(resolve, 150));
-      }
-    }
+  nextSequence(): number {
+    const sequence = this.sequenceNumber;
+    this.sequenceNumber = (this.sequenceNumber + 1) & 0xFF;
+    return sequence;
   }
-    
-  async setBrightness(brightness: number, autoMode: boolean = false): Promise<void> {
-    const command = new Uint8Array(3);
-    command[0] = COMMANDS.SET_BRIGHTNESS;
-    command[1] = Math.max(0, Math.min(42, brightness)); // 0x00-0x2A
-    command[2] = autoMode ? 0x01 : 0x00;
 
-    await this.sendCommand(command, false, true); // Send to right arm only
+  onFrame(listener: (frame: Uint8Array, side: ArmSide) => void): void {
+    this.onFrameCallbacks.push(listener);
   }
 
-  async setSilentMode(enabled: boolean): Promise<void> {
-    const command = new Uint8Array(2);
-    command[0] = COMMANDS.SET_SILENT_MODE;
-    command[1] = enabled ? 0x0C : 0x0A;
+  private defaultPriority(command: number): CommandPriority {
+    switch (command) {
+      case COMMANDS.SEND_BITMAP:
+      case COMMANDS.CRC_CHECK:
+      case COMMANDS.BMP_TRANSMISSION_END[0]:
+        return 'bulk';
+      case COMMANDS.SEND_NOTIFICATION:
+      case COMMANDS.CLEAR_NOTIFICATION:
+      case COMMANDS.SEND_TEXT:
+        return 'notification';
+      default:
+        return 'control';
+    }
+  }
 
-    await this.sendCommand(command); // Send to both arms
+  // Drops commands still waiting in the arm queues (all, or only those with the tag)
+  cancelQueuedCommands(tag?: string): number {
+    return this.queues.left.cancel(tag) + this.queues.right.cancel(tag);
   }
 
-  async enableMicrophone(enabled: boolean): Promise<void> {
-    const command = new Uint8Array(2);
-    command[0] = COMMANDS.MICROPHONE_CONTROL;
-    command[1] = enabled ? 0x01 : 0x00;
+  private async writeWithAck(link: G1Link, side: ArmSide, data: Uint8Array, options: AckOptions): Promise<CommandResult> {
+    const timeoutMs = options.timeoutMs ?? this.ackTimeoutMs;
+    const retries = options.retries ?? this.retries;
 
-    await this.sendCommand(command);
-  }
+    for (let attempts = 1; ; attempts++) {
+      const pending = this.acks.expect(side, data, timeoutMs);
+      try {
+        this.traffic.record('tx', side, data);
+        if (transportLog.isEnabled('debug')) {
+          transportLog.debug(`TX ${side}: ${toHex(data)}`);
+        }
+        await link.write(data);
+      } catch (error) {
+        pending.cancel();
+        throw error;
+      }
 
-  async clearScreen(): Promise<void> {
-    const command = new Uint8Array(1);
-    command[0] = COMMANDS.CLEAR_SCREEN;
+      const sentAt = Date.now();
+      const { status, response } = await pending.reply;
+      const latencyMs = status === 'timeout' ? undefined : Date.now() - sentAt;
+      if (status === 'nacked' && attempts <= retries) {
+        transportLog.warn(`Command 0x${data[0].toString(16)} rejected by ${side} arm, retrying (${attempts}/${retries})`);
+        continue;
+      }
 
-    await this.sendCommand(command);
+      return { side, command: data[0], status, attempts, response, latencyMs };
+    }
   }
 
-  async getBatteryStatus(): Promise<void> {
-    const command = new Uint8Array(2);
-    command[0] = COMMANDS.GET_BATTERY;
-    command[1] = 0x01;
+  // Device queries, shortcuts for the ones in settings
+  async getBattery(timeoutMs?: number): Promise<Record<ArmSide, BatteryInfo | null>> {
+    return await this.settings.getBattery(timeoutMs);
+  }
 
-    await this.sendCommand(command);
+  async getBrightness(timeoutMs?: number): Promise<{ level: number; autoMode: boolean }> {
+    return await this.settings.getBrightness(timeoutMs);
   }
 
-  async setDashboardTimeAndWeather(weather: WeatherData): Promise<void> {
-    const now = new Date();
-    const unixTimestamp = Math.floor(now.getTime() / 1000);
-    const unixTimestampMs = now.getTime();
+  async getSerialNumber(timeoutMs?: number): Promise<string> {
+    return await this.settings.getSerialNumber(timeoutMs);
+  }
 
-    const command = new Uint8Array(18);
-    command[0] = COMMANDS.SET_DASHBOARD;
-    command[1] = 0x12; // Length
-    command[2] = 0x00; // Pad
-    command[3] = this.sequenceNumber++ & 0xFF;
-    command[4] = 0x01; // Subcommand: Set Time and Weather
-    
-    // Unix timestamp (32-bit seconds)
-    command[5] = (unixTimestamp >> 24) & 0xFF;
-    command[6] = (unixTimestamp >> 16) & 0xFF;
-    command[7] = (unixTimestamp >> 8) & 0xFF;
-    command[8] = unixTimestamp & 0xFF;
-    
-    // Unix timestamp (64-bit milliseconds)
-    const msBytes = new ArrayBuffer(8);
-    const msView = new DataView(msBytes);
-    msView.setBigUint64(0, BigInt(unixTimestampMs), false);
-    const msArray = new Uint8Array(msBytes);
-    command.set(msArray, 9);
-    
-    command[17] = weather.icon;
-    command[18] = weather.temperature;
-    command[19] = weather.isCelsius ? 0x00 : 0x01;
-    command[20] = weather.is24Hour ? 0x01 : 0x00;
+  // Reads serial and firmware from the glasses; the result is also kept in devices.info
+  async refreshDeviceInfo(timeoutMs?: number): Promise<G1DeviceInfo> {
+    const serial = await this.settings.getSerialNumber(timeoutMs);
+    const firmware = await this.settings.getFirmwareInfo(timeoutMs);
 
-    await this.sendCommand(command);
+    const info = buildDeviceInfo(serial, { left: this.leftLink, right: this.rightLink }, firmware);
+    this.setDeviceInfo(info);
+    return info;
   }
 
   // Event listeners
-  onDeviceEvent(callback: (event: any) => void): void {
+  onDeviceEvent(callback: (event: G1DeviceEvent) => void): void {
     this.onDeviceEventCallbacks.push(callback);
   }
 
-  onBatteryUpdate(callback: (battery: BatteryInfo, isLeft: boolean) => void): void {
-    this.onBatteryUpdateCallbacks.push(callback);
+  // Wear, case and charging status, updated from device events
+  onDeviceStatusChange(callback: (status: G1DeviceStatus, event: G1DeviceEvent) => void): void {
+    this.onDeviceStatusChangeCallbacks.push(callback);
+  }
+
+  onConnectionEvent(callback: (event: ConnectionEvent) => void): void {
+    this.onConnectionEventCallbacks.push(callback);
+  }
+
+  onConnectionStateChange(callback: (state: G1ConnectionState, previous: G1ConnectionState) => void): void {
+    this.stateMachine.onChange(callback);
+  }
+
+  // Fires after every heartbeat and when an arm's link is torn down
+  onLinkHealthChange(callback: (health: LinkHealth) => void): void {
+    this.onLinkHealthChangeCallbacks.push(callback);
+  }
+
+  // Fires when refreshDeviceInfo has read new info, and with null on disconnect
+  onDeviceInfoChange(callback: (info: G1DeviceInfo | null) => void): void {
+    this.onDeviceInfoChangeCallbacks.push(callback);
   }
 
   // Private methods
   private async sendInitialCommands(): Promise<void> {
     // Send Init command
-    const initCommand = new Uint8Array(2);
-    initCommand[0] = COMMANDS.INIT;
-    initCommand[1] = 0xFB;
-    await this.sendCommand(initCommand, true, false); // Send to left arm only
+    const results = await this.send(encodeInit(), { toLeft: true, toRight: false }); // Send to left arm only
+    assertAcked(results, 'Init command');
 
     // Small delay between commands
     await new Promise(resolve => setTimeout(resolve, 100));
   }
 
   private startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(async () => {
-      try {
-        const command = new Uint8Array(2);
-        command[0] = COMMANDS.SEND_HEARTBEAT;
-        command[1] = this.heartbeatSequence++ & 0xFF;
-        await this.sendCommand(command);
-      } catch (error) {
-        console.error('Heartbeat failed:', error);
-      }
-    }, 28000); // Send every 28 seconds (protocol specifies < 32 seconds)
-  }
-
-  private stopHeartbeat(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
-    }
+    // Send every 28 seconds by default (protocol specifies < 32 seconds)
+    this.heartbeatInterval = setInterval(() => this.sendHeartbeat(), this.heartbeatIntervalMs);
   }
 
+  // Each beat carries its own sequence number, which the reply echoes, so a late
+  // reply to one beat is never taken for the next
+  private async sendHeartbeat(): Promise<void> {
+    const sequence = this.heartbeatSequence;
+    this.heartbeatSequence = (sequence + 1) & 0xFF;
 
-  private calculateCRC32(data: Uint8Array): number {
-    // CRC32-XZ implementation for BMP data
-    const polynomial = 0x04C11DB7;
-    let crc = 0xFFFFFFFF;
-
-    // Storage address for BMP data is 0x001C0000
-    const storageAddress = new Uint8Array([0x00, 0x1C, 0x00, 0x00]);
-
-    // First calculate CRC for storage address
-    for (let i = 0; i < storageAddress.length; i++) {
-      crc ^= storageAddress[i] << 24;
-      for (let j = 0; j < 8; j++) {
-        if (crc & 0x80000000) {
-          crc = (crc << 1) ^ polynomial;
-        } else {
-          crc <<= 1;
-        }
-      }
+    let results: CommandResult[];
+    try {
+      results = await this.send(encodeHeartbeat(sequence), undefined, { retries: 0 });
+    } catch (error) {
+      log.error('Heartbeat failed:', error);
+      return;
     }
 
-    // Then calculate CRC for the actual BMP data
-    for (let i = 0; i < data.length; i++) {
-      crc ^= data[i] << 24;
-      for (let j = 0; j < 8; j++) {
-        if (crc & 0x80000000) {
-          crc = (crc << 1) ^ polynomial;
-        } else {
-          crc <<= 1;
-        }
-      }
-    }
+    for (const { side, status, latencyMs } of results) {
+      const link = this.linkFor(side);
+      if (!link) continue;
 
-    // Convert to big endian unsigned 32-bit
-    const result = (~crc) >>> 0;
-    return (result << 24) | ((result & 0xFF00) << 8) | ((result & 0xFF0000) >> 8) | (result >>> 24);
-  }
+      const tracker = this.health[side];
+      tracker.recordRssi(await link.readRssi().catch(() => null));
+      const health = tracker.recordBeat(status === 'timeout' ? null : latencyMs ?? null);
+      this.emitLinkHealth(side);
 
-private createBMPPackets(imageData: Uint8Array): Uint8Array[] {
-    const packets: Uint8Array[] = [];
-    const chunkSize = 194 - 2; // 194 bytes total, minus 2 for command and index
+      if (health.missedBeats === 0) continue;
+      log.warn(`Heartbeat ${sequence} not answered by the ${side} arm (${health.missedBeats} in a row)`);
 
-    for (let i = 0; i < imageData.length; i += chunkSize) {
-      const chunk = imageData.slice(i, i + chunkSize);
-      const packet = new Uint8Array(chunk.length + (i === 0 ? 6 : 2));
-      
-      packet[0] = COMMANDS.SEND_BITMAP;
-      packet[1] = Math.floor(i / chunkSize) & 0xFF;
-
-      if (i === 0) {
-        // First packet includes storage address
-        packet[2] = 0x00;
-        packet[3] = 0x1c;
-        packet[4] = 0x00;
-        packet[5] = 0x00;
-        packet.set(chunk, 6);
-      } else {
-        packet.set(chunk, 2);
+      // The arm may not report the drop for a long time; stop waiting and reconnect it
+      if (health.missedBeats >= this.maxMissedHeartbeats && this.linkFor(side) === link) {
+        this.handleArmDisconnected(side, new TimeoutError(`The ${side} arm missed ${health.missedBeats} heartbeats in a row.`, side, COMMANDS.SEND_HEARTBEAT));
+        await link.disconnect().catch(() => undefined);
       }
-
-      packets.push(packet);
     }
-
-    return packets;
   }
 
-  private convertTo1BitBMP(data: Uint8Array): Uint8Array {
-    // Skip BMP header (54 bytes) and get to the actual image data
-    const imageData = data.slice(54);
-    
-    // For 1-bit BMP, each byte represents 8 pixels
-    // The data is stored in rows, with each row padded to 4-byte boundary
-    const width = 576;
-    const height = 136;
-    const bytesPerRow = Math.ceil(width / 8);
-    const paddedBytesPerRow = Math.ceil(bytesPerRow / 4) * 4;
-    
-    const bmpData = new Uint8Array(bytesPerRow * height);
-    
-    // Process each row
-    for (let y = 0; y < height; y++) {
-      const sourceRow = imageData.slice(y * paddedBytesPerRow, (y + 1) * paddedBytesPerRow);
-      const targetRow = bmpData.slice(y * bytesPerRow, (y + 1) * bytesPerRow);
-      
-      // Copy row data, skipping padding
-      for (let x = 0; x < bytesPerRow; x++) {
-        targetRow[x] = sourceRow[x];
-      }
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
     }
-    
-    return bmpData;
   }
 
-  async sendBMPImage(imageData: BMPImageData): Promise<boolean> {
-    if (!this.isConnected) return false;
-
-    // Validate image dimensions
-    if (imageData.width !== 576 || imageData.height !== 136) {
-      console.error('Image must be 576x136 pixels');
-      return false;
-    }
 
+  // Cleanup
+  async disconnect(): Promise<void> {
     try {
-      console.log('Starting BMP transmission...');
-      const bmpData = this.convertTo1BitBMP(imageData.data);
-      console.log('Converted to 1-bit BMP, data length:', bmpData.length);
+      this.userDisconnected = true;
+      this.session++;
+      this.reconnecting = { left: false, right: false };
+      this.stopHeartbeat();
+      this.setDeviceInfo(null);
+
+      for (const side of ['left', 'right'] as ArmSide[]) {
+        const link = this.linkFor(side);
+        this.teardownArm(side);
+        if (link) {
+          await link.disconnect();
+          this.emitConnectionEvent({ type: 'disconnected', side });
+        }
+      }
       
-      const packets = this.createBMPPackets(imageData.data);
-      console.log('Created', packets.length, 'packets');
-
-      // Send packets sequentially - left side first, then right
-      for (let i = 0; i < packets.length; i++) {
-        console.log(`Sending packet ${i + 1}/${packets.length}`);
-        await this.sendCommand(packets[i], true, false);
-        await this.sendCommand(packets[i], false, true);
-        await new Promise(resolve => setTimeout(resolve, 200)); // Increased delay
+      if (this.stateMachine.state.status !== 'idle') {
+        this.stateMachine.transition({ status: 'idle' });
       }
-
-      console.log('Sending end command...');
-      // Send transmission end command
-      const endCommand = new Uint8Array([0x20, 0x0d, 0x0e]);
-      await this.sendCommand(endCommand, true, false);
-      await this.sendCommand(endCommand, false, true);
-      await new Promise(resolve => setTimeout(resolve, 500)); // Wait for response
-
-      console.log('Sending CRC check...');
-      // Calculate CRC including storage address
-      const crcData = new Uint8Array([0x00, 0x1c, 0x00, 0x00, ...bmpData]);
-      const crc = this.calculateCRC32(crcData);
-      const crcCommand = new Uint8Array([COMMANDS.CRC_CHECK, ...this.uint32ToBytes(crc)]);
-      await this.sendCommand(crcCommand, true, false);
-      await this.sendCommand(crcCommand, false, true);
-
-      console.log('BMP transmission complete');
-      return true;
+      log.info('Disconnected from G1 glasses');
     } catch (error) {
-      console.error('Failed to send BMP:', error);
-      return false;
+      log.error('Error during disconnect:', error);
     }
   }
 
-
-  async showImage(imageData: BMPImageData): Promise<boolean> {
-    if (!this.isConnected) return false;
-
-    try {
-      // Send command to display the buffered image
-      const displayCommand = new Uint8Array([COMMANDS.SEND_BITMAP, 0x00, 0x00, 0x1c, 0x00, 0x00]);
-      await this.sendCommand(displayCommand, true, false);
-      await this.sendCommand(displayCommand, false, true);
-
-      console.log('Sending CRC check...');
-      // Calculate CRC including storage address
-      const bmpData = this.convertTo1BitBMP(imageData.data);
-      const crcData = new Uint8Array([0x00, 0x1c, 0x00, 0x00, ...bmpData]);
-      const crc = this.calculateCRC32(crcData);
-      const crcCommand = new Uint8Array([COMMANDS.CRC_CHECK, ...this.uint32ToBytes(crc)]);
-      await this.sendCommand(crcCommand, true, false);
-      await this.sendCommand(crcCommand, false, true);
-
-      console.log('Image display complete');
-      return true;
-    } catch (error) {
-      console.error('Failed to show image:', error);
-      return false;
-    }
+  // Getters
+  // True while at least one arm can take commands
+  get connected(): boolean {
+    const available = availableArms(this.stateMachine.state);
+    return available.left || available.right;
   }
 
-  private uint32ToBytes(value: number): number[] {
-    return [
-      (value >>> 24) & 0xFF,
-      (value >>> 16) & 0xFF,
-      (value >>> 8) & 0xFF,
-      value & 0xFF
-    ];
+  get connectionState(): G1ConnectionState {
+    return this.stateMachine.state;
   }
 
-  // Utility methods
-  private base64ToUint8Array(base64: string): Uint8Array {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+  // MTU in effect per arm; DEFAULT_MTU while an arm is not connected
+  get negotiatedMtu(): Record<ArmSide, number> {
+    return { ...this.mtu };
   }
 
-  private uint8ArrayToBase64(bytes: Uint8Array): string {
-    let binaryString = '';
-    for (let i = 0; i < bytes.length; i++) {
-      binaryString += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binaryString);
-  }
-
-  async getAudioRecording(sequence: number = 0): Promise<void> {
-    // Validate sequence number is in valid range
-    sequence = Math.max(0, Math.min(255, sequence));
-
-    const command = new Uint8Array(2);
-    command[0] = COMMANDS.GET_AUDIO_RECORDING; // 0xF1
-    command[1] = sequence; // Sequence number 0-255
-
-    // Send command to get audio data chunk for this sequence
-    await this.sendCommand(command);
-
-    // Note: Audio data will be received via notification callback
-    // The glasses will send back the audio data chunk corresponding 
-    // to this sequence number
-
-    // Create a promise that will resolve when we receive the audio data
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Timeout waiting for audio data'));
-      }, 5000); // 5 second timeout
-
-      // Add one-time listener for audio data
-      const audioHandler = (data: any) => {
-        if (data.type === 'audio' && data.sequence === sequence) {
-          clearTimeout(timeout);
-          
-          // Convert audio data to base64
-          const audioBase64 = this.uint8ArrayToBase64(data.audioData);
-
-          // Save audio data
-          try {
-            // Save base64 audio data
-            localStorage.setItem(`audio_${sequence}`, audioBase64);
-            resolve();
-          } catch (error) {
-            reject(error); 
-          }
-
-          // Remove this one-time handler
-          this.onDeviceEventCallbacks = this.onDeviceEventCallbacks.filter(cb => cb !== audioHandler);
-        }
-      };
-
-      this.onDeviceEventCallbacks.push(audioHandler);
+  // The recorded traffic plus what a ReplayTransport needs to connect the same way
+  captureSession(): G1Recording {
+    const arm = (side: ArmSide, link: G1Link | null) =>
+      link ? { id: link.id, name: link.name, mtu: this.mtu[side] } : undefined;
+    return recordingFromTraffic(this.traffic.records(), {
+      left: arm('left', this.leftLink),
+      right: arm('right', this.rightLink)
     });
   }
 
-  // Cleanup
-  async disconnect(): Promise<void> {
-    try {
-      this.stopHeartbeat();
-      this.isConnected = false;
-
-      if (this.leftDevice) {
-        await this.leftDevice.cancelConnection();
-        this.leftDevice = null;
-      }
-      
-      if (this.rightDevice) {
-        await this.rightDevice.cancelConnection();
-        this.rightDevice = null;
-      }
-
-      this.leftTxCharacteristic = null;
-      this.rightTxCharacteristic = null;
-      
-      console.log('Disconnected from G1 glasses');
-    } catch (error) {
-      console.error('Error during disconnect:', error);
-    }
+  get queueMetrics(): Record<ArmSide, QueueMetrics> {
+    return {
+      left: this.queues.left.metrics,
+      right: this.queues.right.metrics
+    };
   }
 
-  private mapTypeToCommand(type: number): string {
-    switch (type) {
-      case 0x00:
-        return "TouchPad Double Tap";
-      case 0x01:
-        return "TouchPad Single Tap";
-      case 0x02:
-        return "Head Up";
-      case 0x03:
-        return "Head Down";
-      case 0x04:
-        this.isGlassesWorn = true;
-        this.isInSilentMode = true;
-        return "TouchPad Triple Tap";
-      case 0x05:
-        this.isGlassesWorn = true;
-        this.isInSilentMode = false;
-        return "TouchPad Triple Tap";
-      case 0x06:
-        this.isGlassesWorn = true;
-        return "Glasses are worn";
-      case 0x07:
-        this.isGlassesWorn = false;
-        return "Glasses taken off, not in box";
-      case 0x08:
-        this.isInCase = true;
-        this.isCaseOpen = true;
-        return "Put in case, lid open";
-      case 0x09:
-        this.isGlassesCharging = true;
-        return "Charging Status Change";
-      case 0x0B:
-        this.isInCase = true;
-        this.isCaseOpen = false;
-        return "Put in case, lid closed";
-      case 0x0E:
-        this.isGlassesCharging = false;
-        return "Case Charging Status Change";
-      case 0x0F:
-        this.isGlassesCharging = false;
-        return "Case Battery Percent";
-      case 0x11:
-        this.isGlassesWorn = true;
-        return "BLE Paired Success";
-      case 0x12:
-        this.isGlassesWorn = true;
-        return "Right TouchPad pressed, held and released";
-      case 0x17:
-        this.isGlassesWorn = true;
-        this.clearScreen();
-        return "Left TouchPad pressed and held";
-      case 0x18:
-        this.isGlassesWorn = true;
-        this.clearScreen();
-        return "Left TouchPad pressed Released";
-      case 0x1E:
-        this.isGlassesWorn = true;
-        return "Open Dashboard (double tap)";
-      case 0x1F:
-        return "Close Dashboard (double tap)";
-      case 0x20:
-        return "Double tap (translate/transcribe mode)";
-      default:
-        return 'Unknown event';
-    }
+  // Heartbeat round trips, missed beats and RSSI per arm, with the score derived from them
+  get linkHealth(): Record<ArmSide, LinkHealth> {
+    return {
+      left: this.health.left.current,
+      right: this.health.right.current
+    };
   }
+  
 
-  // Getters
-  get connected(): boolean {
-    return this.isConnected;
+  get deviceStatus(): G1DeviceStatus {
+    return this.status;
   }
-  
 
-  get devices(): { left: Device | null; right: Device | null; isInSilentMode: boolean; isInCase: boolean; isCaseOpen: boolean; isGlassesWorn: boolean; isGlassesInBox: boolean; isGlassesCharging: boolean } {
+  // info is null until refreshDeviceInfo (run after every connect) has succeeded
+  get devices(): { left: G1Link | null; right: G1Link | null; info: G1DeviceInfo | null } {
     return {
-      left: this.leftDevice,
-      right: this.rightDevice,
-      isInSilentMode: this.isInSilentMode,
-      isInCase: this.isInCase,
-      isCaseOpen: this.isCaseOpen,
-      isGlassesWorn: this.isGlassesWorn,
-      isGlassesInBox: this.isGlassesInBox,
-      isGlassesCharging: this.isGlassesCharging
+      left: this.leftLink,
+      right: this.rightLink,
+      info: this.info
     };
   }
 }
\ No newline at end of file
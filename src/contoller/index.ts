@@ -0,0 +1,96 @@
+// Single entry point of the G1 SDK. Screens import from here only.
+//
+//   transport   BlePlxTransport (phones); SimulatedG1Transport in simulator.ts for Node;
+//               ReplayTransport plays back a session captured with captureSession()
+//   codec       codec.ts, protocol.ts: frame layouts, no I/O
+//   core        EvenRealitiesG1Manager: connection, queues, acks, heartbeat, reconnect
+//   features    manager.display / settings / notifications / dashboard / ai
+//
+//   const glasses = new EvenRealitiesG1Manager(new BlePlxTransport());
+//   await glasses.initialize();
+//   const [pair] = await glasses.scanForGlasses();
+//   await glasses.connectToGlasses(pair);
+//   await glasses.display.sendText('Hello', 0, 0, false);
+
+// Core
+export { EvenRealitiesG1Manager } from './glasses2';
+export type { ConnectionEvent, G1ManagerOptions } from './glasses2';
+export { allAcked } from './acks';
+export type { CommandResult, CommandStatus } from './acks';
+export type { CommandPriority, QueueMetrics } from './commandQueue';
+export { LINK_HEALTH_WINDOW, LinkHealthTracker, linkQuality } from './linkHealth';
+export type { LinkHealth, LinkQuality } from './linkHealth';
+export { commandLabel, describeFrame, toHex, TrafficRecorder } from './trafficRecorder';
+export type { TrafficDirection, TrafficFilter, TrafficRecord } from './trafficRecorder';
+export {
+  ArmUnavailableError,
+  BluetoothOffError,
+  CommandCancelledError,
+  CrcMismatchError,
+  G1Error,
+  InvalidArgumentError,
+  InvalidStateError,
+  isG1Error,
+  NackedError,
+  NotConnectedError,
+  PayloadTooLargeError,
+  PermissionDeniedError,
+  QueueFullError,
+  TimeoutError,
+  UartNotFoundError,
+  UnexpectedReplyError
+} from './errors';
+export type { G1ErrorCode } from './errors';
+export { availableArms } from './connectionState';
+export type { G1ConnectionState, G1ConnectionStatus } from './connectionState';
+export { DEVICE_EVENT_CODES, describeDeviceEvent, INITIAL_DEVICE_STATUS, reduceDeviceStatus } from './deviceEvents';
+export type { G1DeviceEvent, G1DeviceEventType, G1DeviceStatus } from './deviceEvents';
+export { parseFirmwareInfo, parseG1Serial } from './deviceInfo';
+export type { G1ArmIdentity, G1DeviceInfo, G1FirmwareInfo, G1FrameColor, G1FrameShape, G1Model, G1SerialInfo } from './deviceInfo';
+
+// Logging
+export { ConsoleLogSink, consoleLogSink, createLogger, formatLogEntry, LOG_LEVELS, LOG_TAGS, logging, MemoryLogSink } from './logger';
+export type { LogConfig, LogEntry, LogEntryLevel, Logger, LogLevel, LogSink, LogTag } from './logger';
+export { FileLogSink } from './logFile';
+
+// Transports
+export { BlePlxTransport } from './bleTransport';
+export { BluetoothReadinessService, waitForBluetoothState } from './bluetoothReadiness';
+export type {
+  BluetoothPermissions,
+  BluetoothReadiness,
+  BluetoothReadinessOptions,
+  BluetoothReadinessStatus,
+  PermissionState,
+  RecoveryAction
+} from './bluetoothReadiness';
+export { NativeBluetoothPermissions } from './bluetoothPermissions';
+export type { ArmSide, G1Link, G1Transport, ScannedDevice, TransportState } from './transport';
+export { parseRecording, recordingFromTraffic, ReplayTransport, serializeRecording } from './replay';
+export type { G1Recording, RecordedArm, RecordedFrame, ReplayMismatch, ReplayOptions, ReplayResult } from './replay';
+export { loadRecording, saveRecording } from './recordingFile';
+
+// Discovery and pairing
+export { groupIntoPairs, parseG1Name } from './pairing';
+export type { G1ArmInfo, GlassesPair } from './pairing';
+export { StopToken } from './scan';
+export type { ScanOptions, ScanSession, ScanUpdate } from './scan';
+export { KnownGlassesStore, knownPairId } from './knownGlasses';
+export type { KnownPair } from './knownGlasses';
+export { FileKnownGlassesStorage } from './knownGlassesFile';
+
+// Features
+export { TextDocument } from './features/display';
+export type { BMPImageData } from './features/display';
+export type { AIResponse, TouchBarEvent } from './features/evenAI';
+export { AIResponseWriter } from './features/aiStream';
+export type { AIStreamOptions } from './features/aiStream';
+export type { AudioPacket, BatteryInfo, NotificationApp, NotificationData, WeatherData } from './codec';
+
+// Text layout
+export { composeRegions, glyphWidth, graphemes, isRenderable, layoutText, measureText, sanitizeText } from './textLayout';
+export type { TextAlign, TextLayoutOptions, TextRegion } from './textLayout';
+
+// Codec
+export { DASHBOARD_MODES, decodeCommand, decodeInbound, encodeCommand, encodeInbound } from './codec';
+export type { DashboardSetting, G1Command, G1CommandName, G1InboundMessage } from './codec';
@@ -0,0 +1,136 @@
+// Remembered G1 pairs.
+// A pair is remembered after a successful connection so the next launch can connect
+// straight to its arm IDs without scanning. Pairs are keyed by their two arm IDs:
+// the channel is only the number in the advertised name, and two pairs can share it.
+
+import { createLogger } from './logger';
+import { GlassesPair } from './pairing';
+import { ArmSide } from './transport';
+
+const log = createLogger('storage');
+
+export interface KnownArm {
+  id: string;
+  name: string;
+  serial: string;
+}
+
+export interface KnownPair {
+  id: string; // knownPairId of the two arms
+  channel: number;
+  left: KnownArm;
+  right: KnownArm;
+  nickname?: string;
+  lastSeen: number; // Epoch ms of the last successful connection
+}
+
+// Where the serialized list lives; kept separate so the store itself has no native dependency
+export interface KnownGlassesStorage {
+  read(): Promise<string | null>;
+  write(contents: string): Promise<void>;
+}
+
+export function knownPairId(leftId: string, rightId: string): string {
+  return `${leftId}/${rightId}`;
+}
+
+export class KnownGlassesStore {
+  private storage: KnownGlassesStorage;
+  private pairs: KnownPair[] | null = null;
+
+  constructor(storage: KnownGlassesStorage) {
+    this.storage = storage;
+  }
+
+  // Most recently seen first
+  async list(): Promise<KnownPair[]> {
+    const pairs = await this.load();
+    return [...pairs].sort((a, b) => b.lastSeen - a.lastSeen);
+  }
+
+  async find(id: string): Promise<KnownPair | undefined> {
+    const pairs = await this.load();
+    return pairs.find(pair => pair.id === id);
+  }
+
+  // Adds the pair or refreshes its IDs and last-seen time; an existing nickname is kept
+  async remember(pair: GlassesPair, nickname?: string): Promise<KnownPair> {
+    const pairs = await this.load();
+    const id = knownPairId(pair.left.id, pair.right.id);
+    const existing = pairs.find(known => known.id === id);
+    const known: KnownPair = {
+      id,
+      channel: pair.channel,
+      left: toKnownArm(pair, 'left'),
+      right: toKnownArm(pair, 'right'),
+      nickname: nickname ?? existing?.nickname,
+      lastSeen: Date.now()
+    };
+
+    await this.save([...pairs.filter(p => p.id !== id), known]);
+    return known;
+  }
+
+  async markSeen(id: string): Promise<void> {
+    await this.update(id, pair => ({ ...pair, lastSeen: Date.now() }));
+  }
+
+  async rename(id: string, nickname: string): Promise<void> {
+    await this.update(id, pair => ({ ...pair, nickname: nickname.trim() || undefined }));
+  }
+
+  async forget(id: string): Promise<void> {
+    const pairs = await this.load();
+    await this.save(pairs.filter(pair => pair.id !== id));
+  }
+
+  private async update(id: string, change: (pair: KnownPair) => KnownPair): Promise<void> {
+    const pairs = await this.load();
+    if (!pairs.some(pair => pair.id === id)) return;
+    await this.save(pairs.map(pair => pair.id === id ? change(pair) : pair));
+  }
+
+  private async load(): Promise<KnownPair[]> {
+    if (this.pairs) return this.pairs;
+
+    try {
+      const contents = await this.storage.read();
+      const parsed = contents ? JSON.parse(contents) : [];
+      // Lists saved before pairs had an id were keyed by channel; their id follows from the arms
+      this.pairs = Array.isArray(parsed)
+        ? parsed.filter(isKnownPair).map(pair => ({ ...pair, id: knownPairId(pair.left.id, pair.right.id) }))
+        : [];
+    } catch (error) {
+      // A corrupt file should not keep the app from starting; the list is rebuilt on the next connection
+      log.warn('Could not read known glasses, starting with an empty list:', error);
+      this.pairs = [];
+    }
+    return this.pairs;
+  }
+
+  private async save(pairs: KnownPair[]): Promise<void> {
+    this.pairs = pairs;
+    await this.storage.write(JSON.stringify(pairs));
+  }
+}
+
+function toKnownArm(pair: GlassesPair, side: ArmSide): KnownArm {
+  const arm = pair[side];
+  return { id: arm.id, name: arm.name, serial: arm.serial };
+}
+
+function isKnownPair(value: unknown): value is Omit<KnownPair, 'id'> {
+  return isObject(value)
+    && typeof value.channel === 'number'
+    && isKnownArm(value.left)
+    && isKnownArm(value.right)
+    && typeof value.lastSeen === 'number';
+}
+
+function isKnownArm(value: unknown): value is KnownArm {
+  return isObject(value) && typeof value.id === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
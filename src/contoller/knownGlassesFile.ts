@@ -0,0 +1,22 @@
+import * as RNFS from 'react-native-fs';
+import { KnownGlassesStorage } from './knownGlasses';
+
+// KnownGlassesStorage backed by a JSON file in the app's document directory
+export class FileKnownGlassesStorage implements KnownGlassesStorage {
+  private path: string;
+
+  constructor(path: string = `${RNFS.DocumentDirectoryPath}/known-glasses.json`) {
+    this.path = path;
+  }
+
+  async read(): Promise<string | null> {
+    if (!(await RNFS.exists(this.path))) {
+      return null;
+    }
+    return await RNFS.readFile(this.path, 'utf8');
+  }
+
+  async write(contents: string): Promise<void> {
+    await RNFS.writeFile(this.path, contents, 'utf8');
+  }
+}
@@ -0,0 +1,116 @@
+// Link health per arm, derived from heartbeats and RSSI.
+//
+// Every heartbeat either comes back with a round-trip time or is missed. The score
+// (0-100) rolls over the last few beats: the share that came back, less a penalty
+// for slow round trips and one for a weak signal. A nacked beat still counts as
+// back, since the arm answered.
+
+import { ArmSide } from './transport';
+
+export type LinkQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface LinkHealth {
+  side: ArmSide;
+  latencyMs: number | null; // Average round trip over the window
+  lastLatencyMs: number | null;
+  missedBeats: number; // In a row, reset by the next beat that comes back
+  totalMissed: number;
+  rssi: number | null; // dBm, from the last poll
+  score: number | null; // Null until the first beat
+  quality: LinkQuality;
+}
+
+export const LINK_HEALTH_WINDOW = 10;
+
+// Round trips up to FAST cost nothing; at SLOW and above the full latency penalty applies
+const FAST_LATENCY_MS = 150;
+const SLOW_LATENCY_MS = 1000;
+const MAX_LATENCY_PENALTY = 30;
+
+// Same idea for the signal, in dBm
+const STRONG_RSSI = -70;
+const WEAK_RSSI = -90;
+const MAX_RSSI_PENALTY = 20;
+
+export class LinkHealthTracker {
+  readonly side: ArmSide;
+  private windowSize: number;
+  private beats: (number | null)[] = []; // Round trip per beat, null when missed
+  private lastLatencyMs: number | null = null;
+  private missedBeats = 0;
+  private totalMissed = 0;
+  private rssi: number | null = null;
+
+  constructor(side: ArmSide, windowSize: number = LINK_HEALTH_WINDOW) {
+    this.side = side;
+    this.windowSize = windowSize;
+  }
+
+  // latencyMs is null for a beat that got no reply
+  recordBeat(latencyMs: number | null): LinkHealth {
+    this.beats.push(latencyMs);
+    if (this.beats.length > this.windowSize) {
+      this.beats.shift();
+    }
+
+    if (latencyMs === null) {
+      this.missedBeats++;
+      this.totalMissed++;
+    } else {
+      this.missedBeats = 0;
+      this.lastLatencyMs = latencyMs;
+    }
+    return this.current;
+  }
+
+  recordRssi(rssi: number | null): LinkHealth {
+    this.rssi = rssi;
+    return this.current;
+  }
+
+  // A new link starts from a clean slate
+  reset(): void {
+    this.beats = [];
+    this.lastLatencyMs = null;
+    this.missedBeats = 0;
+    this.totalMissed = 0;
+    this.rssi = null;
+  }
+
+  get current(): LinkHealth {
+    const latencies = this.beats.filter((beat): beat is number => beat !== null);
+    const latencyMs = latencies.length > 0
+      ? Math.round(latencies.reduce((total, latency) => total + latency, 0) / latencies.length)
+      : null;
+    const score = this.beats.length > 0 ? linkScore(latencies.length / this.beats.length, latencyMs, this.rssi) : null;
+
+    return {
+      side: this.side,
+      latencyMs,
+      lastLatencyMs: this.lastLatencyMs,
+      missedBeats: this.missedBeats,
+      totalMissed: this.totalMissed,
+      rssi: this.rssi,
+      score,
+      quality: linkQuality(score)
+    };
+  }
+}
+
+function linkScore(delivered: number, latencyMs: number | null, rssi: number | null): number {
+  const latencyPenalty = latencyMs === null ? 0 : penalty(latencyMs - FAST_LATENCY_MS, SLOW_LATENCY_MS - FAST_LATENCY_MS, MAX_LATENCY_PENALTY);
+  const rssiPenalty = rssi === null ? 0 : penalty(STRONG_RSSI - rssi, STRONG_RSSI - WEAK_RSSI, MAX_RSSI_PENALTY);
+  return Math.round(Math.max(0, delivered * 100 - latencyPenalty - rssiPenalty));
+}
+
+// Scales linearly from 0 (excess <= 0) to max (excess >= range)
+function penalty(excess: number, range: number, max: number): number {
+  return Math.min(Math.max(excess / range, 0), 1) * max;
+}
+
+export function linkQuality(score: number | null): LinkQuality {
+  if (score === null) return 'unknown';
+  if (score >= 80) return 'good';
+  if (score >= 50) return 'fair';
+  return 'poor';
+}
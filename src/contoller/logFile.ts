@@ -0,0 +1,52 @@
+import * as RNFS from 'react-native-fs';
+import { formatLogEntry, LogEntry, LogSink } from './logger';
+
+// LogSink that appends formatted entries to a text file in the app's document
+// directory. Entries are batched and written at most once per flushIntervalMs,
+// so logging a BMP upload does not turn into one file write per packet.
+export class FileLogSink implements LogSink {
+  readonly path: string;
+  private flushIntervalMs: number;
+  private pending: string[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string = `${RNFS.DocumentDirectoryPath}/g1.log`, flushIntervalMs: number = 1000) {
+    this.path = path;
+    this.flushIntervalMs = flushIntervalMs;
+  }
+
+  write(entry: LogEntry): void {
+    this.pending.push(formatLogEntry(entry));
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushIntervalMs);
+    }
+  }
+
+  // Writes whatever is still buffered, e.g. before sharing the file
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0) {
+      return await this.writing;
+    }
+
+    const lines = this.pending.join('\n') + '\n';
+    this.pending = [];
+    this.writing = this.writing
+      .then(() => RNFS.appendFile(this.path, lines, 'utf8'))
+      // Straight to the console: logging this could end up in the very file that failed
+      .catch(error => console.warn('Failed to write log file:', error));
+    await this.writing;
+  }
+
+  async clear(): Promise<void> {
+    this.pending = [];
+    await this.writing;
+    if (await RNFS.exists(this.path)) {
+      await RNFS.unlink(this.path);
+    }
+  }
+}
@@ -0,0 +1,218 @@
+// Levelled, tagged logging for the SDK.
+//
+//   const log = createLogger('display');
+//   log.debug(`Sending packet ${i + 1}/${packets.length}`);
+//
+// Every logger writes through the shared `logging` config: a minimum level, an
+// optional override per tag and the sinks entries end up in. Only the console
+// sink is installed by default; MemoryLogSink keeps the latest entries for an
+// in-app viewer and FileLogSink (logFile.ts) appends them to a file. All of it
+// can be changed at runtime, e.g. from a developer settings screen.
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export type LogEntryLevel = Exclude<LogLevel, 'silent'>;
+
+export const LOG_TAGS = [
+  'core', // Manager lifecycle, heartbeat
+  'transport', // Links, MTU, reconnects, raw frames at debug level
+  'scan',
+  'codec',
+  'events', // Device events and touchpad gestures
+  'display',
+  'audio',
+  'ai',
+  'settings',
+  'storage',
+] as const;
+export type LogTag = typeof LOG_TAGS[number];
+
+export interface LogEntry {
+  timestamp: number; // ms since epoch
+  level: LogEntryLevel;
+  tag: LogTag;
+  message: string;
+  data: unknown[];
+}
+
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+export interface Logger {
+  readonly tag: LogTag;
+  // Lets callers skip building expensive messages, e.g. hex dumps of every frame
+  isEnabled(level: LogEntryLevel): boolean;
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+export class LogConfig {
+  private minimumLevel: LogLevel = 'info';
+  private tagLevels: Partial<Record<LogTag, LogLevel>> = {};
+  private sinks: LogSink[] = [];
+  private onChangeCallbacks: (() => void)[] = [];
+
+  get level(): LogLevel {
+    return this.minimumLevel;
+  }
+
+  set level(level: LogLevel) {
+    this.minimumLevel = level;
+    this.changed();
+  }
+
+  // null removes the override, so the tag follows the global level again
+  setTagLevel(tag: LogTag, level: LogLevel | null): void {
+    if (level === null) {
+      delete this.tagLevels[tag];
+    } else {
+      this.tagLevels[tag] = level;
+    }
+    this.changed();
+  }
+
+  tagLevel(tag: LogTag): LogLevel | null {
+    return this.tagLevels[tag] ?? null;
+  }
+
+  levelFor(tag: LogTag): LogLevel {
+    return this.tagLevels[tag] ?? this.minimumLevel;
+  }
+
+  isEnabled(tag: LogTag, level: LogEntryLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.levelFor(tag));
+  }
+
+  addSink(sink: LogSink): void {
+    if (!this.sinks.includes(sink)) {
+      this.sinks.push(sink);
+      this.changed();
+    }
+  }
+
+  removeSink(sink: LogSink): void {
+    this.sinks = this.sinks.filter(s => s !== sink);
+    this.changed();
+  }
+
+  hasSink(sink: LogSink): boolean {
+    return this.sinks.includes(sink);
+  }
+
+  onChange(callback: () => void): () => void {
+    this.onChangeCallbacks.push(callback);
+    return () => {
+      this.onChangeCallbacks = this.onChangeCallbacks.filter(c => c !== callback);
+    };
+  }
+
+  write(entry: LogEntry): void {
+    if (!this.isEnabled(entry.tag, entry.level)) return;
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A broken sink must not take the caller down with it
+      }
+    }
+  }
+
+  private changed(): void {
+    this.onChangeCallbacks.forEach(callback => callback());
+  }
+}
+
+export const logging = new LogConfig();
+
+export function createLogger(tag: LogTag): Logger {
+  const log = (level: LogEntryLevel) => (message: string, ...data: unknown[]) => {
+    logging.write({ timestamp: Date.now(), level, tag, message, data });
+  };
+
+  return {
+    tag,
+    isEnabled: (level) => logging.isEnabled(tag, level),
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  };
+}
+
+// "2025-01-31T10:00:00.000Z WARN [transport] The left arm disconnected: Error: ..."
+export function formatLogEntry(entry: LogEntry): string {
+  const data = entry.data.map(formatLogData).join(' ');
+  return `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase()} [${entry.tag}] ${entry.message}${data ? ` ${data}` : ''}`;
+}
+
+function formatLogData(value: unknown): string {
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// Sinks
+
+export class ConsoleLogSink implements LogSink {
+  write(entry: LogEntry): void {
+    const message = `[${entry.tag}] ${entry.message}`;
+    switch (entry.level) {
+      case 'debug':
+        console.debug(message, ...entry.data);
+        break;
+      case 'info':
+        console.log(message, ...entry.data);
+        break;
+      case 'warn':
+        console.warn(message, ...entry.data);
+        break;
+      case 'error':
+        console.error(message, ...entry.data);
+        break;
+    }
+  }
+}
+
+// Keeps the latest entries in memory, oldest first
+export class MemoryLogSink implements LogSink {
+  private readonly capacity: number;
+  private buffer: LogEntry[] = [];
+  private written = 0;
+
+  constructor(capacity: number = 500) {
+    this.capacity = capacity;
+  }
+
+  write(entry: LogEntry): void {
+    this.buffer.push(entry);
+    this.written++;
+    if (this.buffer.length > this.capacity) {
+      this.buffer.splice(0, this.buffer.length - this.capacity);
+    }
+  }
+
+  entries(tag?: LogTag): LogEntry[] {
+    return tag === undefined ? [...this.buffer] : this.buffer.filter(entry => entry.tag === tag);
+  }
+
+  // Number of entries written so far, also across clear(); lets viewers poll cheaply
+  get count(): number {
+    return this.written;
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+}
+
+// Installed by default; remove it with logging.removeSink(consoleLogSink)
+export const consoleLogSink = new ConsoleLogSink();
+logging.addSink(consoleLogSink);
@@ -0,0 +1,67 @@
+// G1 advertised names and left/right pairing.
+// Each arm advertises as "Even G1_<channel>_<L|R>_<serial>", e.g. "Even G1_74_L_39D1A6".
+// Both arms of a pair share the channel number; the serial fragment is per arm.
+
+import { ArmSide } from './transport';
+
+export interface G1AdvertisedName {
+  channel: number;
+  side: ArmSide;
+  serial: string;
+}
+
+export interface G1ArmInfo {
+  id: string;
+  name: string;
+  rssi?: number;
+  channel: number;
+  side: ArmSide;
+  serial: string;
+}
+
+export interface GlassesPair {
+  channel: number;
+  left: G1ArmInfo;
+  right: G1ArmInfo;
+}
+
+const G1_NAME_PATTERN = /^Even G1_(\d+)_([LR])_([0-9A-Za-z]+)$/;
+
+export function parseG1Name(name: string): G1AdvertisedName | null {
+  const match = G1_NAME_PATTERN.exec(name.trim());
+  if (!match) return null;
+
+  return {
+    channel: parseInt(match[1], 10),
+    side: match[2] === 'L' ? 'left' : 'right',
+    serial: match[3]
+  };
+}
+
+// Groups arms into complete pairs by channel, strongest signal first.
+// When an arm was seen more than once per channel and side, the strongest one wins.
+export function groupIntoPairs(arms: G1ArmInfo[]): GlassesPair[] {
+  const channels = new Map<number, { left?: G1ArmInfo; right?: G1ArmInfo }>();
+
+  for (const arm of arms) {
+    const slot = channels.get(arm.channel) ?? {};
+    const current = slot[arm.side];
+    if (!current || (arm.rssi ?? -Infinity) > (current.rssi ?? -Infinity)) {
+      slot[arm.side] = arm;
+    }
+    channels.set(arm.channel, slot);
+  }
+
+  const pairs: GlassesPair[] = [];
+  channels.forEach((slot, channel) => {
+    if (slot.left && slot.right) {
+      pairs.push({ channel, left: slot.left, right: slot.right });
+    }
+  });
+
+  return pairs.sort((a, b) => pairSignal(b) - pairSignal(a));
+}
+
+function pairSignal(pair: GlassesPair): number {
+  return Math.min(pair.left.rssi ?? -127, pair.right.rssi ?? -127);
+}
@@ -0,0 +1,114 @@
+// Constants shared by the G1 controllers, the transports and the simulator.
+// This file must stay free of react-native imports so it can be used in Node.
+
+// Nordic UART Service
+export const NORDIC_UART_SERVICE = '6e400001-b5a3-f393-e0a9-e50e24dcca9e';
+export const NORDIC_UART_TX = '6e400002-b5a3-f393-e0a9-e50e24dcca9e'; // Write
+export const NORDIC_UART_RX = '6e400003-b5a3-f393-e0a9-e50e24dcca9e'; // Notify
+
+// Command constants
+export const COMMANDS = {
+  SET_BRIGHTNESS: 0x01,
+  SET_SILENT_MODE: 0x03,
+  SET_NOTIFICATION_APPS: 0x04,
+  SET_DASHBOARD: 0x06,
+  MICROPHONE_CONTROL: 0x0E,
+  SEND_BITMAP: 0x15,
+  CLEAR_SCREEN: 0x18,
+  SEND_QUICK_NOTE: 0x1E,
+  SEND_HARD_RESET: 0x23,
+  GET_FIRMWARE_INFO: 0x23, // [0x23, 0x74], same command byte as the reset
+  SEND_HEARTBEAT: 0x25,
+  GET_BRIGHTNESS: 0x29,
+  GET_BATTERY: 0x2C,
+  GET_SERIAL: 0x33,
+  SEND_UNPAIR: 0x47,
+  SEND_NOTIFICATION: 0x4B,
+  CLEAR_NOTIFICATION: 0x4C,
+  INIT: 0x4D,
+  SEND_TEXT: 0x4E,
+  SET_NOTIFICATION_AUTO_DISPLAY: 0x4F,
+  SEND_DASHBOARD_LOCK: 0x50,
+  GET_AUDIO_RECORDING: 0xF1,
+  SET_DEBUG_MODE: 0xF4,
+  DEVICE_EVENTS: 0xF5,
+  BMP_TRANSMISSION_END: [0x20, 0x0d, 0x0e],
+  CRC_CHECK: 0x16,
+};
+
+// Response constants
+export const RESPONSE = {
+  SUCCESS: 0xC9,
+  FAILURE: 0xCA,
+  CONTINUE: 0xCB
+};
+
+// The firmware info reply is plain text ("net build time: ..., ver 1.4.5, ..."), so it
+// starts with 'n' instead of the command byte it answers
+export const FIRMWARE_INFO_REPLY = 0x6E;
+export const FIRMWARE_INFO_PREFIX = 'net build time';
+
+// Screen Status Flags
+export const SCREEN_STATUS = {
+  NEW_CONTENT: 0x01,
+  EVEN_AI_DISPLAYING: 0x30,
+  EVEN_AI_COMPLETE: 0x40,
+  EVEN_AI_MANUAL: 0x50,
+  EVEN_AI_ERROR: 0x60,
+  TEXT_SHOW: 0x70,
+} as const;
+
+// Bitmaps are stored at this address on the glasses
+export const BMP_STORAGE_ADDRESS = [0x00, 0x1c, 0x00, 0x00];
+
+// Packet sizing.
+// The usable write size is the negotiated ATT MTU minus its 3-byte header, capped
+// at what the firmware accepts in a single write.
+export const DEFAULT_MTU = 23; // BLE minimum, in effect until negotiation succeeds
+export const PREFERRED_MTU = 251;
+export const ATT_HEADER_SIZE = 3;
+export const MAX_PACKET_SIZE = 194; // Firmware limit per write
+
+export const TEXT_HEADER_SIZE = 9; // [0x4E, seq, total, index, status, pos0, pos1, page, maxPages]
+export const NOTIFICATION_HEADER_SIZE = 4; // [0x4B, pad, total, index]
+export const BITMAP_HEADER_SIZE = 2 + BMP_STORAGE_ADDRESS.length; // [0x15, index] plus the address on the first packet
+
+export interface PacketSizes {
+  packet: number; // Largest frame that fits in one write
+  textChunk: number; // Text bytes per 0x4E packet
+  notificationChunk: number; // JSON bytes per 0x4B packet
+  bitmapChunk: number; // Image bytes per 0x15 packet, the same for every packet
+}
+
+export function packetSizesForMtu(mtu: number): PacketSizes {
+  const packet = Math.min(Math.max(mtu, DEFAULT_MTU) - ATT_HEADER_SIZE, MAX_PACKET_SIZE);
+  return {
+    packet,
+    textChunk: packet - TEXT_HEADER_SIZE,
+    notificationChunk: packet - NOTIFICATION_HEADER_SIZE,
+    bitmapChunk: packet - BITMAP_HEADER_SIZE
+  };
+}
+
+// Byte offset of the sequence number in outbound frames of sequenced commands.
+// Replies to these commands echo it right after the status byte: [command, status, sequence].
+export const SEQUENCE_OFFSET: { [command: number]: number } = {
+  [COMMANDS.SET_DASHBOARD]: 3,
+  [COMMANDS.SEND_BITMAP]: 1,
+  [COMMANDS.SEND_HEARTBEAT]: 1,
+  [COMMANDS.SEND_TEXT]: 1,
+};
+
+export function commandSequence(frame: Uint8Array): number | undefined {
+  const offset = SEQUENCE_OFFSET[frame[0]];
+  return offset !== undefined && frame.length > offset ? frame[offset] : undefined;
+}
+
+// Command byte a reply answers
+export function repliedCommand(frame: Uint8Array): number {
+  return frame[0] === FIRMWARE_INFO_REPLY ? COMMANDS.GET_FIRMWARE_INFO : frame[0];
+}
+
+export function responseSequence(frame: Uint8Array): number | undefined {
+  return SEQUENCE_OFFSET[frame[0]] !== undefined && frame.length > 2 ? frame[2] : undefined;
+}
@@ -0,0 +1,16 @@
+import * as RNFS from 'react-native-fs';
+import { G1Recording, parseRecording, serializeRecording } from './replay';
+
+// Session recordings as JSONL files in the app's document directory.
+// Resolves with the path written, e.g. to share it or attach it to a bug report.
+export async function saveRecording(
+  recording: G1Recording,
+  path: string = `${RNFS.DocumentDirectoryPath}/g1-session-${Date.now()}.jsonl`
+): Promise<string> {
+  await RNFS.writeFile(path, serializeRecording(recording), 'utf8');
+  return path;
+}
+
+export async function loadRecording(path: string): Promise<G1Recording> {
+  return parseRecording(await RNFS.readFile(path, 'utf8'));
+}
@@ -0,0 +1,411 @@
+// Record and replay of BLE sessions.
+//
+// A recording holds the TX/RX frames of a real session per arm, with their
+// timestamps, plus what is needed to connect the same way again (device ids,
+// names and MTU). Capture one with manager.captureSession() while
+// manager.traffic is enabled and store it with serializeRecording(); plain
+// TrafficRecorder.toJsonl() exports can be loaded as well.
+//
+// ReplayTransport feeds the recorded RX frames back into the manager and checks
+// every frame the manager writes against the recorded TX frames:
+//
+//   const transport = new ReplayTransport(parseRecording(text), { speed: 10 });
+//   const manager = new EvenRealitiesG1Manager(transport);
+//   await manager.connectToGlasses(transport.armId('left'), transport.armId('right'));
+//   await transport.assertMatches();
+//
+// An RX frame is only delivered once the manager has written every TX frame
+// recorded before it on the same arm, so replies never overtake their request.
+// Heartbeats follow the wall clock rather than the session, so by default they
+// are left out of the comparison and answered by the replay itself.
+
+import { COMMANDS, commandSequence, repliedCommand, RESPONSE } from './protocol';
+import { describeFrame, toHex, TrafficDirection, TrafficRecord } from './trafficRecorder';
+import { ArmSide, G1Link, G1Transport, ScannedDevice, TransportState, TransportSubscription } from './transport';
+
+export interface RecordedArm {
+  id: string;
+  name: string | null;
+  mtu: number | null; // null grants whatever MTU the manager asks for
+}
+
+export interface RecordedFrame {
+  at: number; // ms since the first frame of the recording
+  direction: TrafficDirection;
+  side: ArmSide;
+  frame: Uint8Array;
+}
+
+export interface G1Recording {
+  arms: Record<ArmSide, RecordedArm>;
+  frames: RecordedFrame[];
+}
+
+export interface ReplayOptions {
+  speed?: number; // 1 replays at the recorded pace, 10 ten times faster, Infinity without delays
+  txTimeoutMs?: number; // How long to wait for the manager to write an expected TX frame
+  unchecked?: number[]; // Command bytes that are neither compared nor replayed
+}
+
+export interface ReplayMismatch {
+  side: ArmSide;
+  index: number; // Position among the arm's recorded TX frames
+  expected: Uint8Array | null; // null: the manager wrote more than was recorded
+  actual: Uint8Array | null; // null: the manager never wrote it
+}
+
+export interface ReplayResult {
+  delivered: number; // RX frames fed to the manager
+  written: number; // TX frames compared against the recording
+  mismatches: ReplayMismatch[];
+  stoppedEarly: string | null; // Why playback could not reach the end of the recording
+}
+
+// Recording
+
+export function recordingFromTraffic(
+  records: TrafficRecord[],
+  arms: Partial<Record<ArmSide, RecordedArm>> = {}
+): G1Recording {
+  const start = records.length > 0 ? records[0].timestamp : 0;
+  return {
+    arms: {
+      left: arms.left ?? defaultArm('left'),
+      right: arms.right ?? defaultArm('right')
+    },
+    frames: records.map(record => ({
+      at: record.timestamp - start,
+      direction: record.direction,
+      side: record.side,
+      frame: record.frame
+    }))
+  };
+}
+
+// One JSON object per line: the arms first, then one line per frame
+export function serializeRecording(recording: G1Recording): string {
+  const lines = [JSON.stringify({ arms: recording.arms })];
+  for (const { at, direction, side, frame } of recording.frames) {
+    lines.push(JSON.stringify({
+      at,
+      direction,
+      side,
+      meaning: describeFrame(direction, side, frame),
+      hex: toHex(frame, '')
+    }));
+  }
+  return lines.join('\n');
+}
+
+// Reads serializeRecording() output as well as TrafficRecorder.toJsonl() exports,
+// which carry ISO times instead of offsets and no arms line
+export function parseRecording(text: string): G1Recording {
+  const arms: Record<ArmSide, RecordedArm> = { left: defaultArm('left'), right: defaultArm('right') };
+  const frames: RecordedFrame[] = [];
+  let start: number | null = null;
+
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} of the recording is not valid JSON: ${line}`);
+    }
+    if (entry.arms) {
+      Object.assign(arms, entry.arms);
+      return;
+    }
+
+    const time = typeof entry.at === 'number' ? entry.at : Date.parse(entry.time);
+    if (!['tx', 'rx'].includes(entry.direction) || !['left', 'right'].includes(entry.side) ||
+        isNaN(time) || !/^([0-9a-f]{2})+$/i.test(entry.hex)) {
+      throw new Error(`Line ${index + 1} of the recording is not a frame: ${line}`);
+    }
+
+    start = start ?? time;
+    frames.push({
+      at: typeof entry.at === 'number' ? entry.at : time - start!,
+      direction: entry.direction,
+      side: entry.side,
+      frame: fromHex(entry.hex)
+    });
+  });
+
+  return { arms, frames };
+}
+
+function defaultArm(side: ArmSide): RecordedArm {
+  return { id: `replay-${side}`, name: null, mtu: null };
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Replay
+
+export class ReplayTransport implements G1Transport {
+  readonly recording: G1Recording;
+  private readonly speed: number;
+  private readonly txTimeoutMs: number;
+  private readonly unchecked: number[];
+  private readonly frames: RecordedFrame[];
+  private readonly expectedTx: Record<ArmSide, Uint8Array[]>;
+  private writtenTx: Record<ArmSide, number> = { left: 0, right: 0 };
+  private links: Partial<Record<ArmSide, ReplayLink>> = {};
+  private result: ReplayResult = { delivered: 0, written: 0, mismatches: [], stoppedEarly: null };
+  private playback: Promise<ReplayResult> | null = null;
+  private waiters: (() => void)[] = [];
+
+  constructor(recording: G1Recording, options: ReplayOptions = {}) {
+    this.recording = recording;
+    this.speed = options.speed ?? 1;
+    this.txTimeoutMs = options.txTimeoutMs ?? 10000;
+    this.unchecked = options.unchecked ?? [COMMANDS.SEND_HEARTBEAT];
+
+    this.frames = recording.frames.filter(({ direction, frame }) =>
+      !this.unchecked.includes(direction === 'rx' ? repliedCommand(frame) : frame[0])
+    );
+    this.expectedTx = {
+      left: this.frames.filter(f => f.direction === 'tx' && f.side === 'left').map(f => f.frame),
+      right: this.frames.filter(f => f.direction === 'tx' && f.side === 'right').map(f => f.frame)
+    };
+  }
+
+  armId(side: ArmSide): string {
+    return this.recording.arms[side].id;
+  }
+
+  // Resolves once every recorded frame was delivered or written, or playback stalled.
+  // Writes after that are still compared and show up in the same result.
+  done(): Promise<ReplayResult> {
+    if (!this.playback) {
+      throw new Error('Replay has not started, connect to one of the recorded arms first');
+    }
+    return this.playback;
+  }
+
+  // Like done(), but throws when the manager strayed from the recording
+  async assertMatches(): Promise<ReplayResult> {
+    const result = await this.done();
+    if (result.mismatches.length === 0 && !result.stoppedEarly) {
+      return result;
+    }
+
+    const problems = result.mismatches.map(({ side, index, expected, actual }) =>
+      `${side} TX #${index}: expected ${expected ? describeFrame('tx', side, expected) : 'nothing'}` +
+      `${expected ? ` [${toHex(expected)}]` : ''}, got ` +
+      `${actual ? `${describeFrame('tx', side, actual)} [${toHex(actual)}]` : 'nothing'}`
+    );
+    if (result.stoppedEarly) {
+      problems.push(result.stoppedEarly);
+    }
+    throw new Error(`Replay does not match the recording:\n${problems.join('\n')}`);
+  }
+
+  async state(): Promise<TransportState> {
+    return 'PoweredOn';
+  }
+
+  onStateChange(listener: (state: TransportState) => void): TransportSubscription {
+    return { remove: () => {} };
+  }
+
+  startScan(onDevice: (device: ScannedDevice) => void, onError: (error: Error) => void): void {
+    for (const arm of Object.values(this.recording.arms)) {
+      onDevice({ id: arm.id, name: arm.name, rssi: null });
+    }
+  }
+
+  stopScan(): void {}
+
+  async connect(deviceId: string): Promise<G1Link> {
+    const side = (['left', 'right'] as ArmSide[]).find(s => this.recording.arms[s].id === deviceId);
+    if (!side) {
+      throw new Error(`Device ${deviceId} is not part of the recording`);
+    }
+
+    const link = new ReplayLink(
+      this.recording.arms[side],
+      (data) => this.handleWrite(side, data),
+      () => this.wake()
+    );
+    this.links[side] = link;
+    this.wake();
+
+    this.playback = this.playback ?? this.play();
+    return link;
+  }
+
+  private async play(): Promise<ReplayResult> {
+    const recordedTx: Record<ArmSide, number> = { left: 0, right: 0 };
+    let previousAt = 0;
+    let previousDelivery = Date.now();
+
+    for (const recorded of this.frames) {
+      const { side } = recorded;
+      if (recorded.direction === 'tx') {
+        recordedTx[side]++;
+        continue;
+      }
+
+      const required = recordedTx[side];
+      const ready = await this.waitUntil(
+        () => this.writtenTx[side] >= required && !!this.links[side]?.monitoring,
+        this.txTimeoutMs
+      );
+      if (!ready) {
+        return this.stop(side, `Stalled before RX frame at ${recorded.at} ms on the ${side} arm`);
+      }
+
+      const wait = (recorded.at - previousAt) / this.speed - (Date.now() - previousDelivery);
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      this.links[side]!.notify(recorded.frame);
+      this.result.delivered++;
+      previousAt = recorded.at;
+      previousDelivery = Date.now();
+    }
+
+    // TX frames recorded after the last RX frame
+    for (const side of ['left', 'right'] as ArmSide[]) {
+      const ready = await this.waitUntil(
+        () => this.writtenTx[side] >= this.expectedTx[side].length,
+        this.txTimeoutMs
+      );
+      if (!ready) {
+        return this.stop(side, `Stalled at the end of the recording on the ${side} arm`);
+      }
+    }
+    return this.result;
+  }
+
+  private stop(side: ArmSide, reason: string): ReplayResult {
+    const index = this.writtenTx[side];
+    if (index < this.expectedTx[side].length) {
+      this.result.mismatches.push({ side, index, expected: this.expectedTx[side][index], actual: null });
+    }
+    this.result.stoppedEarly = reason;
+    return this.result;
+  }
+
+  private handleWrite(side: ArmSide, data: Uint8Array): void {
+    if (this.unchecked.includes(data[0])) {
+      // Acknowledge it the way the arm would, with the sequence echoed when there is one
+      const sequence = commandSequence(data);
+      const reply = sequence !== undefined ? [data[0], RESPONSE.SUCCESS, sequence] : [data[0], RESPONSE.SUCCESS];
+      setTimeout(() => this.links[side]?.notify(new Uint8Array(reply)), 0);
+      return;
+    }
+
+    const index = this.writtenTx[side]++;
+    const expected = this.expectedTx[side][index] ?? null;
+    this.result.written++;
+    if (!expected || !sameBytes(expected, data)) {
+      this.result.mismatches.push({ side, index, expected, actual: data.slice() });
+    }
+    this.wake();
+  }
+
+  // Resolves true as soon as condition() holds, false after timeoutMs
+  private waitUntil(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+    if (condition()) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const finish = (ready: boolean) => {
+        clearTimeout(timer);
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        resolve(ready);
+      };
+      const waiter = () => {
+        if (condition()) finish(true);
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private wake(): void {
+    [...this.waiters].forEach(waiter => waiter());
+  }
+}
+
+class ReplayLink implements G1Link {
+  private arm: RecordedArm;
+  private onWrite: (data: Uint8Array) => void;
+  private onChange: () => void;
+  private connected = true;
+  private listeners: ((data: Uint8Array) => void)[] = [];
+
+  constructor(arm: RecordedArm, onWrite: (data: Uint8Array) => void, onChange: () => void) {
+    this.arm = arm;
+    this.onWrite = onWrite;
+    this.onChange = onChange;
+  }
+
+  get id(): string {
+    return this.arm.id;
+  }
+
+  get name(): string | null {
+    return this.arm.name;
+  }
+
+  get monitoring(): boolean {
+    return this.connected && this.listeners.length > 0;
+  }
+
+  async discoverUart(): Promise<void> {}
+
+  async requestMtu(mtu: number): Promise<number> {
+    return Math.min(mtu, this.arm.mtu ?? mtu);
+  }
+
+  // Recordings carry no signal strength
+  async readRssi(): Promise<number | null> {
+    return null;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.connected) {
+      throw new Error(`Replayed ${this.arm.id} is not connected`);
+    }
+    this.onWrite(data);
+  }
+
+  monitor(onData: (data: Uint8Array) => void, onError: (error: Error) => void): TransportSubscription {
+    this.listeners.push(onData);
+    this.onChange();
+    return {
+      remove: () => {
+        this.listeners = this.listeners.filter(l => l !== onData);
+      }
+    };
+  }
+
+  // Recordings do not capture link loss, so a replayed arm never drops
+  onDisconnected(listener: (error: Error | null) => void): TransportSubscription {
+    return { remove: () => {} };
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.listeners = [];
+  }
+
+  notify(frame: Uint8Array): void {
+    if (!this.connected) return;
+    this.listeners.forEach(listener => listener(frame));
+  }
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,147 @@
+// Streaming scan for G1 arms.
+// Arms are reported as soon as they are seen, RSSI changes come through as
+// updates, and the scan can stop as soon as a complete left/right pair is found.
+//
+//   for await (const update of manager.scan({ timeoutMs: 15000 })) {
+//     if (update.type === 'pairComplete') await manager.connectToGlasses(update.pair);
+//   }
+
+import { G1ArmInfo, GlassesPair, groupIntoPairs, parseG1Name } from './pairing';
+import { G1Transport } from './transport';
+
+export type ScanUpdate =
+  | { type: 'found'; arm: G1ArmInfo }
+  | { type: 'updated'; arm: G1ArmInfo } // Same arm, new RSSI
+  | { type: 'pairComplete'; pair: GlassesPair };
+
+export interface ScanOptions {
+  timeoutMs?: number; // Hard limit for the scan, defaults to 10 s
+  stopOnPair?: boolean; // Stop once the first complete pair is found, defaults to true
+  stopToken?: StopToken;
+}
+
+export interface ScanSession {
+  stop(): void;
+  // Resolves with every complete pair seen once the scan has ended
+  finished: Promise<GlassesPair[]>;
+}
+
+// Lets a caller stop a scan it did not start, e.g. a pairing screen being closed
+export class StopToken {
+  private callbacks: (() => void)[] = [];
+  private isStopped = false;
+
+  get stopped(): boolean {
+    return this.isStopped;
+  }
+
+  stop(): void {
+    if (this.isStopped) return;
+    this.isStopped = true;
+    this.callbacks.forEach(callback => callback());
+    this.callbacks = [];
+  }
+
+  onStop(callback: () => void): void {
+    if (this.isStopped) {
+      callback();
+    } else {
+      this.callbacks.push(callback);
+    }
+  }
+}
+
+export function watchForGlasses(
+  transport: G1Transport,
+  onUpdate: (update: ScanUpdate) => void,
+  options: ScanOptions = {}
+): ScanSession {
+  const { timeoutMs = 10000, stopOnPair = true, stopToken } = options;
+  const arms = new Map<string, G1ArmInfo>();
+  const completedChannels = new Set<number>();
+
+  let resolveFinished!: (pairs: GlassesPair[]) => void;
+  let rejectFinished!: (error: Error) => void;
+  const finished = new Promise<GlassesPair[]>((resolve, reject) => {
+    resolveFinished = resolve;
+    rejectFinished = reject;
+  });
+
+  let stopped = false;
+  const end = (error?: Error) => {
+    if (stopped) return;
+    stopped = true;
+    clearTimeout(timer);
+    transport.stopScan();
+
+    if (error) {
+      rejectFinished(error);
+    } else {
+      resolveFinished(groupIntoPairs(Array.from(arms.values())));
+    }
+  };
+
+  const timer = setTimeout(() => end(), timeoutMs);
+  stopToken?.onStop(() => end());
+
+  transport.startScan((device) => {
+    if (stopped || !device.name) return;
+
+    const parsed = parseG1Name(device.name);
+    if (!parsed) return;
+
+    const known = arms.get(device.id);
+    const arm: G1ArmInfo = { id: device.id, name: device.name, rssi: device.rssi ?? undefined, ...parsed };
+
+    // De-duplicate repeated advertisements, only RSSI changes are worth reporting
+    if (known && known.rssi === arm.rssi) return;
+    arms.set(device.id, arm);
+    onUpdate({ type: known ? 'updated' : 'found', arm });
+
+    if (known || completedChannels.has(arm.channel)) return;
+    const pair = groupIntoPairs(Array.from(arms.values())).find(p => p.channel === arm.channel);
+    if (pair) {
+      completedChannels.add(pair.channel);
+      onUpdate({ type: 'pairComplete', pair });
+      if (stopOnPair) end();
+    }
+  }, (error) => end(error));
+
+  return { stop: () => end(), finished };
+}
+
+// Async-iterator view over a scan session; leaving the loop early stops the scan
+export async function* iterateScan(
+  start: (onUpdate: (update: ScanUpdate) => void) => ScanSession
+): AsyncGenerator<ScanUpdate, GlassesPair[]> {
+  const buffer: ScanUpdate[] = [];
+  let wake: (() => void) | null = null;
+  let done = false;
+  let failure: Error | null = null;
+
+  const session = start((update) => {
+    buffer.push(update);
+    wake?.();
+  });
+  session.finished.then(
+    () => { done = true; wake?.(); },
+    (error) => { failure = error; done = true; wake?.(); }
+  );
+
+  try {
+    while (true) {
+      if (buffer.length > 0) {
+        yield buffer.shift()!;
+        continue;
+      }
+      if (done) break;
+      await new Promise<void>(resolve => { wake = resolve; });
+      wake = null;
+    }
+
+    if (failure) throw failure;
+    return await session.finished;
+  } finally {
+    session.stop();
+  }
+}
@@ -0,0 +1,391 @@
+// In-memory simulated G1 pair.
+// Speaks the Nordic UART protocol well enough to drive EvenRealitiesG1Manager
+// without real glasses: every command is ACKed with 0xC9 (or 0xCA when asked to
+// fail), battery requests get a reply, 0xF5 device events can be emitted on
+// demand and each arm keeps track of what is currently on its screen.
+//
+//   const transport = new SimulatedG1Transport();
+//   const manager = new EvenRealitiesG1Manager(transport);
+//   await manager.connectToGlasses(transport.pair.left.id, transport.pair.right.id);
+//   await manager.display.sendText('Hello', 0, 0, false);
+//   transport.pair.left.screen; // { kind: 'text', text: 'Hello', ... }
+
+import { bitmapCrc, decodeCommand, encodeInbound } from './codec';
+import { bluetoothStateError, TimeoutError } from './errors';
+import { ATT_HEADER_SIZE, COMMANDS, commandSequence, DEFAULT_MTU, RESPONSE } from './protocol';
+import { ArmSide, G1Link, G1Transport, ScannedDevice, TransportState, TransportSubscription } from './transport';
+
+export type SimulatedScreen =
+  | { kind: 'blank' }
+  | { kind: 'text'; text: string; status: number; currentPage: number; maxPages: number }
+  | { kind: 'bitmap'; data: Uint8Array };
+
+export class SimulatedG1Arm {
+  readonly side: ArmSide;
+  readonly id: string;
+  readonly name: string;
+
+  // Delay before a reply is delivered
+  latencyMs = 5;
+  rssi = -55;
+
+  // When false the arm is out of range: scans miss it and connecting fails
+  reachable = true;
+
+  // Largest MTU the simulated phone/arm combination agrees to; writes longer than the
+  // negotiated MTU allows are rejected like an oversized ATT write would be
+  maxMtu = 247;
+  mtu = DEFAULT_MTU;
+
+  serialNumber = 'S110LAA2409A01';
+  firmwareInfo = 'net build time: 2024-12-28 20:21:57, app build time 2024-12-28 20:20:45, ver 1.4.5, JBD DeviceID 4010';
+  batteryPercentage = 85;
+  isCharging = false;
+  brightness = 0;
+  autoBrightness = false;
+  silentMode = false;
+  microphoneEnabled = false;
+  screen: SimulatedScreen = { kind: 'blank' };
+  notifications: unknown[] = [];
+
+  // Every frame written to this arm, in order
+  readonly received: Uint8Array[] = [];
+
+  private connected = false;
+  private listeners: ((data: Uint8Array) => void)[] = [];
+  private disconnectListeners: ((error: Error | null) => void)[] = [];
+  private nacks: number[] = [];
+  private textChunks: Uint8Array[] = [];
+  private bitmapChunks: Uint8Array[] = [];
+
+  constructor(side: ArmSide, id: string, name: string) {
+    this.side = side;
+    this.id = id;
+    this.name = name;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  // The next command with this command byte is answered with 0xCA
+  nackNext(command: number): void {
+    this.nacks.push(command);
+  }
+
+  // Emits a 0xF5 device event, e.g. emitEvent(0x01) for a single tap
+  emitEvent(type: number, payload: number[] = []): void {
+    this.notify(encodeInbound({ command: 'DEVICE_EVENTS', event: type, payload: new Uint8Array(payload) }));
+  }
+
+  connect(): void {
+    if (!this.reachable) {
+      // A real connection attempt to an arm out of range runs into the connect timeout
+      throw new TimeoutError(`Simulated ${this.side} arm is out of range`);
+    }
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.connected = false;
+    this.mtu = DEFAULT_MTU;
+    this.listeners = [];
+    this.disconnectListeners = [];
+  }
+
+  // Simulates the link dropping, e.g. the arm going out of range
+  dropConnection(error: Error = new Error('Simulated link loss')): void {
+    if (!this.connected) return;
+
+    const listeners = this.disconnectListeners;
+    this.disconnect();
+    listeners.forEach(listener => listener(error));
+  }
+
+  subscribe(listener: (data: Uint8Array) => void): TransportSubscription {
+    this.listeners.push(listener);
+    return {
+      remove: () => {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      }
+    };
+  }
+
+  subscribeDisconnect(listener: (error: Error | null) => void): TransportSubscription {
+    this.disconnectListeners.push(listener);
+    return {
+      remove: () => {
+        this.disconnectListeners = this.disconnectListeners.filter(l => l !== listener);
+      }
+    };
+  }
+
+  handleWrite(data: Uint8Array): void {
+    if (!this.connected) {
+      throw new Error(`Simulated ${this.side} arm is not connected`);
+    }
+    if (data.length === 0) return;
+    if (data.length > this.mtu - ATT_HEADER_SIZE) {
+      throw new Error(`Write of ${data.length} bytes exceeds the negotiated MTU of ${this.mtu}`);
+    }
+
+    this.received.push(data.slice());
+    const command = data[0];
+
+    const nackIndex = this.nacks.indexOf(command);
+    if (nackIndex !== -1) {
+      this.nacks.splice(nackIndex, 1);
+      this.reply([command, RESPONSE.FAILURE], data);
+      return;
+    }
+
+    switch (command) {
+      case COMMANDS.SET_BRIGHTNESS:
+        this.brightness = data[1];
+        this.autoBrightness = data[2] === 0x01;
+        this.reply([command, RESPONSE.SUCCESS]);
+        break;
+      case COMMANDS.SET_SILENT_MODE:
+        this.silentMode = data[1] === 0x0C;
+        this.reply([command, RESPONSE.SUCCESS]);
+        break;
+      case COMMANDS.MICROPHONE_CONTROL:
+        this.microphoneEnabled = data[1] === 0x01;
+        this.reply([command, RESPONSE.SUCCESS, data[1]]);
+        break;
+      case COMMANDS.CLEAR_SCREEN:
+        this.screen = { kind: 'blank' };
+        this.reply([command, RESPONSE.SUCCESS]);
+        break;
+      case COMMANDS.GET_BATTERY:
+        this.notify(encodeInbound({
+          command: 'GET_BATTERY',
+          battery: { percentage: this.batteryPercentage, isCharging: this.isCharging }
+        }));
+        break;
+      case COMMANDS.GET_BRIGHTNESS:
+        this.notify(encodeInbound({ command: 'GET_BRIGHTNESS', level: this.brightness, autoMode: this.autoBrightness }));
+        break;
+      case COMMANDS.GET_FIRMWARE_INFO:
+        if (data[1] === 0x74) {
+          this.notify(encodeInbound({ command: 'GET_FIRMWARE_INFO', info: this.firmwareInfo }));
+        } else {
+          this.reply([command, RESPONSE.SUCCESS]);
+        }
+        break;
+      case COMMANDS.GET_SERIAL:
+        this.notify(encodeInbound({ command: 'GET_SERIAL', serial: this.serialNumber }));
+        break;
+      case COMMANDS.SEND_NOTIFICATION:
+        this.handleNotificationChunk(data);
+        break;
+      case COMMANDS.SEND_TEXT:
+        this.handleTextChunk(data);
+        break;
+      case COMMANDS.SEND_BITMAP:
+        this.handleBitmapChunk(data);
+        break;
+      case COMMANDS.CRC_CHECK:
+        this.handleCrcCheck(data);
+        break;
+      default:
+        this.reply([command, RESPONSE.SUCCESS], data);
+    }
+  }
+
+  private handleNotificationChunk(data: Uint8Array): void {
+    try {
+      this.notifications.push(JSON.parse(new TextDecoder().decode(data.slice(4))));
+      this.reply([data[0], RESPONSE.SUCCESS]);
+    } catch {
+      this.reply([data[0], RESPONSE.FAILURE]);
+    }
+  }
+
+  private handleTextChunk(data: Uint8Array): void {
+    const packet = decodeCommand(data);
+    if (packet.command !== 'SEND_TEXT') return;
+
+    if (packet.currentPacket === 0) {
+      this.textChunks = [];
+    }
+    this.textChunks.push(packet.data);
+
+    if (packet.currentPacket === packet.totalPackets - 1) {
+      this.screen = {
+        kind: 'text',
+        text: new TextDecoder().decode(concat(this.textChunks)),
+        status: packet.status,
+        currentPage: packet.currentPage,
+        maxPages: packet.maxPages
+      };
+      this.textChunks = [];
+    }
+    this.reply([data[0], RESPONSE.SUCCESS], data);
+  }
+
+  private handleBitmapChunk(data: Uint8Array): void {
+    const packet = decodeCommand(data);
+    if (packet.command !== 'SEND_BITMAP') return;
+
+    if (packet.index === 0) {
+      this.bitmapChunks = [packet.data];
+    } else {
+      this.bitmapChunks.push(packet.data);
+    }
+    this.reply([data[0], RESPONSE.SUCCESS], data);
+  }
+
+  // The CRC covers the storage address + bitmap data
+  private handleCrcCheck(data: Uint8Array): void {
+    const packet = decodeCommand(data);
+    const bitmap = concat(this.bitmapChunks);
+
+    if (packet.command === 'CRC_CHECK' && packet.crc === bitmapCrc(bitmap)) {
+      this.screen = { kind: 'bitmap', data: bitmap };
+      this.reply([data[0], RESPONSE.SUCCESS]);
+    } else {
+      this.reply([data[0], RESPONSE.FAILURE]);
+    }
+  }
+
+  // Sequenced commands get their sequence number echoed after the status byte
+  private reply(frame: number[], request?: Uint8Array): void {
+    const sequence = request ? commandSequence(request) : undefined;
+    this.notify(new Uint8Array(sequence !== undefined ? [...frame, sequence] : frame));
+  }
+
+  private notify(frame: Uint8Array): void {
+    setTimeout(() => {
+      if (!this.connected) return;
+      this.listeners.forEach(listener => listener(frame));
+    }, this.latencyMs);
+  }
+}
+
+export class SimulatedG1Pair {
+  readonly channel: number;
+  readonly left: SimulatedG1Arm;
+  readonly right: SimulatedG1Arm;
+
+  constructor(channel: number = 42, serial: string = '3F2A1B') {
+    this.channel = channel;
+    this.left = new SimulatedG1Arm('left', `sim-${channel}-left`, `Even G1_${channel}_L_${serial}`);
+    this.right = new SimulatedG1Arm('right', `sim-${channel}-right`, `Even G1_${channel}_R_${serial}`);
+  }
+
+  get arms(): SimulatedG1Arm[] {
+    return [this.left, this.right];
+  }
+}
+
+export class SimulatedG1Transport implements G1Transport {
+  readonly pair: SimulatedG1Pair;
+  private powerState: TransportState = 'PoweredOn';
+  private stateListeners: ((state: TransportState) => void)[] = [];
+  private scanTimers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(pair: SimulatedG1Pair = new SimulatedG1Pair()) {
+    this.pair = pair;
+  }
+
+  setPowerState(state: TransportState): void {
+    this.powerState = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  async state(): Promise<TransportState> {
+    return this.powerState;
+  }
+
+  onStateChange(listener: (state: TransportState) => void): TransportSubscription {
+    this.stateListeners.push(listener);
+    return {
+      remove: () => {
+        this.stateListeners = this.stateListeners.filter(l => l !== listener);
+      }
+    };
+  }
+
+  startScan(onDevice: (device: ScannedDevice) => void, onError: (error: Error) => void): void {
+    if (this.powerState !== 'PoweredOn') {
+      onError(bluetoothStateError(this.powerState));
+      return;
+    }
+
+    this.pair.arms.filter(arm => arm.reachable).forEach((arm, index) => {
+      this.scanTimers.push(setTimeout(() => {
+        onDevice({ id: arm.id, name: arm.name, rssi: arm.rssi });
+      }, arm.latencyMs * (index + 1)));
+    });
+  }
+
+  stopScan(): void {
+    this.scanTimers.forEach(timer => clearTimeout(timer));
+    this.scanTimers = [];
+  }
+
+  async connect(deviceId: string): Promise<G1Link> {
+    const arm = this.pair.arms.find(a => a.id === deviceId);
+    if (!arm) {
+      throw new Error(`Unknown simulated device: ${deviceId}`);
+    }
+
+    arm.connect();
+    return new SimulatedG1Link(arm);
+  }
+}
+
+class SimulatedG1Link implements G1Link {
+  private arm: SimulatedG1Arm;
+
+  constructor(arm: SimulatedG1Arm) {
+    this.arm = arm;
+  }
+
+  get id(): string {
+    return this.arm.id;
+  }
+
+  get name(): string | null {
+    return this.arm.name;
+  }
+
+  async discoverUart(): Promise<void> {}
+
+  async requestMtu(mtu: number): Promise<number> {
+    this.arm.mtu = Math.min(mtu, this.arm.maxMtu);
+    return this.arm.mtu;
+  }
+
+  async readRssi(): Promise<number | null> {
+    return this.arm.rssi;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    this.arm.handleWrite(data);
+  }
+
+  monitor(onData: (data: Uint8Array) => void, onError: (error: Error) => void): TransportSubscription {
+    return this.arm.subscribe(onData);
+  }
+
+  onDisconnected(listener: (error: Error | null) => void): TransportSubscription {
+    return this.arm.subscribeDisconnect(listener);
+  }
+
+  async disconnect(): Promise<void> {
+    this.arm.disconnect();
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
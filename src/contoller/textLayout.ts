@@ -0,0 +1,333 @@
+// Text layout for the G1's built-in font.
+//
+// The firmware draws text in one proportional font at FONT_SIZE and clips whatever runs
+// past DISPLAY_WIDTH instead of wrapping it, so lines have to be broken on the phone with
+// the same glyph widths the glasses use. layoutText does that: explicit "\n" starts a new
+// line, words wrap at spaces, words wider than a line are broken between graphemes and
+// tabs are expanded into spaces (the firmware has no tab stops).
+//
+// Characters missing from the font show up as garbage on the glasses, so layoutText first
+// swaps them for a transliteration (ASCII for accented letters, Cyrillic and common symbols)
+// or, failing that, for the fallback string.
+//
+// Text packets carry no coordinates, so composeRegions places text boxes by layout alone:
+// y picks the row it falls in (LINE_HEIGHT pixels each) and x and alignment become leading spaces,
+// measured with the same glyph widths, so a box lands within a space's width of where it
+// was asked for.
+
+import { DISPLAY_WIDTH, FONT_SIZE, LINE_HEIGHT, LINES_PER_SCREEN } from './codec';
+
+export interface TextLayoutOptions {
+  maxWidth?: number; // Pixels available per line, DISPLAY_WIDTH by default
+  tabSize?: number; // Tab stops every tabSize spaces
+  fallback?: string; // Replaces each grapheme the font cannot draw, '?' by default
+  transliterate?: boolean; // Try a close rendering before using the fallback, on by default
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// A text box on the screen, in display pixels
+export interface TextRegion {
+  text: string;
+  x: number;
+  y: number;
+  width?: number; // Up to the right edge of the display by default
+  height?: number; // Up to the bottom of the screen by default; lines that do not fit are dropped
+  align?: TextAlign; // Left by default
+}
+
+// Advance widths in pixels for printable ASCII, indexed by char code - 0x20.
+// The G1 font metrics are not published. These are the Helvetica widths from Adobe's
+// Core 14 AFM files (1000 units per em) scaled to FONT_SIZE, halves rounded down; the
+// glasses draw a similar proportional sans. Where the glasses break a line differently,
+// this table is what to adjust.
+const ASCII_ADVANCE = [
+  //  space !  "  #   $   %   &   '  (  )  *  +   ,  -  .  /
+  6, 6, 7, 12, 12, 19, 14, 4, 7, 7, 8, 12, 6, 7, 6, 6,
+  //  0   1   2   3   4   5   6   7   8   9   :  ;  <   =   >   ?
+  12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 6, 6, 12, 12, 12, 12,
+  //  @   A   B   C   D   E   F   G   H   I  J   K   L   M   N   O
+  21, 14, 14, 15, 15, 14, 13, 16, 15, 6, 10, 14, 12, 17, 15, 16,
+  //  P   Q   R   S   T   U   V   W   X   Y   Z   [  \  ]  ^   _
+  14, 16, 15, 14, 13, 15, 14, 20, 14, 14, 13, 6, 6, 6, 10, 12,
+  //  `  a   b   c   d   e   f  g   h   i  j  k   l  m   n   o
+  7, 12, 12, 10, 12, 12, 6, 12, 12, 5, 5, 10, 5, 17, 12, 12,
+  //  p   q   r  s   t  u   v   w   x   y   z   {  |  }  ~
+  12, 12, 7, 10, 6, 12, 10, 15, 10, 10, 10, 7, 5, 7, 12
+];
+
+const SPACE_ADVANCE = ASCII_ADVANCE[0];
+const DEFAULT_ADVANCE = 12; // Latin-1, Greek, Cyrillic and the like: about an average lowercase letter
+const WIDE_ADVANCE = FONT_SIZE; // CJK, Hangul, full-width forms and emoji fill the em square
+
+// Width in pixels of a single character, taken from its first code point
+export function glyphWidth(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+
+  if (code >= 0x20 && code <= 0x7E) return ASCII_ADVANCE[code - 0x20];
+  if (code < 0x20 || code === 0x7F) return 0; // Control characters are not drawn
+  if ((code >= 0x0300 && code <= 0x036F) || code === 0x200B || code === 0xFE0F) return 0; // Combining marks, zero-width space, emoji presentation selector
+  if (isWide(code)) return WIDE_ADVANCE;
+  return DEFAULT_ADVANCE;
+}
+
+function isWide(code: number): boolean {
+  return (code >= 0x1100 && code <= 0x115F) || // Hangul Jamo
+    (code >= 0x2E80 && code <= 0xA4CF) || // CJK radicals through Yi
+    (code >= 0xAC00 && code <= 0xD7A3) || // Hangul syllables
+    (code >= 0xF900 && code <= 0xFAFF) || // CJK compatibility ideographs
+    (code >= 0xFF00 && code <= 0xFF60) || // Full-width forms
+    (code >= 0xFFE0 && code <= 0xFFE6) ||
+    (code >= 0x1F300 && code <= 0x1FAFF) || // Emoji and pictographs
+    (code >= 0x20000 && code <= 0x3FFFD); // CJK extensions
+}
+
+// Glyphs in the firmware font: ASCII, Latin-1 and Latin Extended-A, general punctuation,
+// the euro sign, box drawing and block elements, and CJK with its punctuation and kana
+const FONT_RANGES: [number, number][] = [
+  [0x20, 0x7E],
+  [0xA0, 0x17F],
+  [0x2010, 0x2027],
+  [0x2030, 0x203A],
+  [0x20AC, 0x20AC],
+  [0x2500, 0x259F],
+  [0x3000, 0x30FF],
+  [0x4E00, 0x9FFF],
+  [0xFF00, 0xFFEF]
+];
+
+// Used when the character has no decomposition into something the font has
+const TRANSLITERATIONS: Record<string, string> = {
+  '\u2122': 'TM', '\u2190': '<-', '\u2192': '->', '\u2194': '<->', '\u2212': '-', '\u2264': '<=', '\u2265': '>=',
+  '\u2260': '!=', '\u2248': '~', '\u221E': 'inf', '\u2713': 'v', '\u2714': 'v', '\u2717': 'x', '\u2718': 'x',
+  '\u0110': 'D', '\u0111': 'd', '\u0141': 'L', '\u0142': 'l', '\u0192': 'f', '\u0259': 'e',
+  '\u0430': 'a', '\u0431': 'b', '\u0432': 'v', '\u0433': 'g', '\u0434': 'd', '\u0435': 'e', '\u0451': 'yo',
+  '\u0436': 'zh', '\u0437': 'z', '\u0438': 'i', '\u0439': 'y', '\u043A': 'k', '\u043B': 'l', '\u043C': 'm',
+  '\u043D': 'n', '\u043E': 'o', '\u043F': 'p', '\u0440': 'r', '\u0441': 's', '\u0442': 't', '\u0443': 'u',
+  '\u0444': 'f', '\u0445': 'kh', '\u0446': 'ts', '\u0447': 'ch', '\u0448': 'sh', '\u0449': 'shch', '\u044A': '',
+  '\u044B': 'y', '\u044C': '', '\u044D': 'e', '\u044E': 'yu', '\u044F': 'ya', '\u0456': 'i', '\u0457': 'yi',
+  '\u0454': 'ye', '\u0491': 'g'
+};
+
+// True when the firmware font has a glyph for the character (one code point).
+// Line breaks and tabs count as drawable since layoutText turns them into lines and spaces.
+export function isRenderable(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0;
+  return code === 0x0A || code === 0x09 || FONT_RANGES.some(([first, last]) => code >= first && code <= last);
+}
+
+// Splits text into user-perceived characters: a base character with its combining marks,
+// variation selectors and skin tones, emoji joined with ZWJ, and flag pairs stay together
+export function graphemes(text: string): string[] {
+  const result: string[] = [];
+
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    const last = result.length - 1;
+    const previous = last >= 0 ? result[last] : '';
+
+    if (last >= 0 && (isExtender(code) || previous.endsWith('\u200D') || (isRegionalIndicator(code) && isLoneRegionalIndicator(previous)))) {
+      result[last] += char;
+    } else {
+      result.push(char);
+    }
+  }
+  return result;
+}
+
+function isExtender(code: number): boolean {
+  return (code >= 0x0300 && code <= 0x036F) || // Combining diacritical marks
+    (code >= 0x1AB0 && code <= 0x1AFF) ||
+    (code >= 0x1DC0 && code <= 0x1DFF) ||
+    (code >= 0x20D0 && code <= 0x20FF) ||
+    (code >= 0xFE20 && code <= 0xFE2F) ||
+    code === 0x200D || // Zero-width joiner
+    (code >= 0xFE00 && code <= 0xFE0F) || // Variation selectors
+    (code >= 0x1F3FB && code <= 0x1F3FF) || // Skin tones
+    (code >= 0xE0020 && code <= 0xE007F); // Tag characters in subdivision flags
+}
+
+function isRegionalIndicator(code: number): boolean {
+  return code >= 0x1F1E6 && code <= 0x1F1FF;
+}
+
+function isLoneRegionalIndicator(grapheme: string): boolean {
+  const chars = Array.from(grapheme);
+  return chars.length === 1 && isRegionalIndicator(chars[0].codePointAt(0) ?? 0);
+}
+
+// Replaces every grapheme the font cannot draw with its transliteration or the fallback.
+// Accented letters are composed first, so "e" followed by a combining acute becomes "é".
+export function sanitizeText(text: string, options: TextLayoutOptions = {}): string {
+  const fallback = options.fallback ?? '?';
+  const transliterate = options.transliterate ?? true;
+
+  return graphemes(text.normalize('NFC')).map((grapheme) => {
+    if (Array.from(grapheme).every(isRenderable)) return grapheme;
+
+    const replacement = transliterate ? transliterateGrapheme(grapheme) : null;
+    return replacement !== null ? replacement : fallback;
+  }).join('');
+}
+
+function transliterateGrapheme(grapheme: string): string | null {
+  const [base] = Array.from(grapheme);
+  const lower = base.toLowerCase();
+  const mapped = TRANSLITERATIONS[base] ?? (lower !== base && TRANSLITERATIONS[lower] !== undefined
+    ? capitalize(TRANSLITERATIONS[lower])
+    : undefined);
+  if (mapped !== undefined) return mapped;
+
+  // Letters with diacritics the font lacks (ǎ, ṅ, ...): keep the base letter, drop the marks
+  const [letter, ...marks] = Array.from(grapheme.normalize('NFD'));
+  if (isRenderable(letter) && marks.every(mark => isExtender(mark.codePointAt(0) ?? 0))) {
+    return letter;
+  }
+  return null;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Width in pixels of one line of text as the glasses draw it, tabs expanded
+export function measureText(text: string, options: TextLayoutOptions = {}): number {
+  return measure(expandTabs(text, 0, options.tabSize ?? 4));
+}
+
+// Breaks text into the lines the glasses will draw, none wider than maxWidth.
+// The lines only contain characters the font can draw (see sanitizeText).
+export function layoutText(text: string, options: TextLayoutOptions = {}): string[] {
+  const maxWidth = options.maxWidth ?? DISPLAY_WIDTH;
+  const tabSize = options.tabSize ?? 4;
+  if (maxWidth < WIDE_ADVANCE) {
+    throw new Error(`maxWidth must be at least ${WIDE_ADVANCE} px to fit a character, got ${maxWidth}`);
+  }
+
+  const lines: string[] = [];
+  for (const paragraph of sanitizeText(text.replace(/\r\n?/g, '\n'), options).split('\n')) {
+    lines.push(...layoutParagraph(paragraph, maxWidth, tabSize));
+  }
+  return lines;
+}
+
+function layoutParagraph(paragraph: string, maxWidth: number, tabSize: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  let width = 0;
+  let pending = ''; // Whitespace since the last word, dropped if the line breaks there
+
+  const pushLine = () => {
+    lines.push(line);
+    line = '';
+    width = 0;
+    pending = '';
+  };
+
+  for (const token of paragraph.match(/[ \t]+|[^ \t]+/g) ?? []) {
+    if (token.trim() === '') {
+      pending += token;
+      continue;
+    }
+
+    // Whitespace only stays if the word after it fits on the same line
+    const gap = expandTabs(pending, width, tabSize);
+    const wordWidth = measure(token);
+    if (width + measure(gap) + wordWidth <= maxWidth) {
+      line += gap + token;
+      width += measure(gap) + wordWidth;
+      pending = '';
+      continue;
+    }
+
+    if (line !== '') pushLine();
+    pending = '';
+
+    // Still too wide on a line of its own: break between graphemes
+    for (const grapheme of graphemes(token)) {
+      const graphemeWidth = glyphWidth(grapheme);
+      if (width + graphemeWidth > maxWidth) pushLine();
+      line += grapheme;
+      width += graphemeWidth;
+    }
+  }
+
+  if (line !== '' || lines.length === 0) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Replaces each tab with the spaces up to the next tab stop. startWidth is the width
+// already used on the line, since tab stops are counted from the line start.
+function expandTabs(text: string, startWidth: number, tabSize: number): string {
+  if (!text.includes('\t')) return text;
+
+  const stop = SPACE_ADVANCE * tabSize;
+  let result = '';
+  let width = startWidth;
+  for (const char of text) {
+    if (char === '\t') {
+      const nextStop = (Math.floor(width / stop) + 1) * stop;
+      const spaces = Math.max(1, Math.ceil((nextStop - width) / SPACE_ADVANCE));
+      result += ' '.repeat(spaces);
+      width += spaces * SPACE_ADVANCE;
+    } else {
+      result += char;
+      width += glyphWidth(char);
+    }
+  }
+  return result;
+}
+
+// A grapheme is as wide as its base character; marks and joined emoji add nothing
+function measure(text: string): number {
+  let width = 0;
+  for (const grapheme of graphemes(text)) {
+    width += glyphWidth(grapheme);
+  }
+  return width;
+}
+
+// Lays the regions out on one screen and returns its LINES_PER_SCREEN lines (trailing
+// empty ones removed). Throws when a region lies outside the display or two regions
+// overlap on a row.
+export function composeRegions(regions: TextRegion[], options: TextLayoutOptions = {}): string[] {
+  const rows: { text: string; width: number }[] = Array.from({ length: LINES_PER_SCREEN }, () => ({ text: '', width: 0 }));
+
+  for (const region of regions) {
+    const { x, y, align = 'left' } = region;
+    if (x < 0 || x >= DISPLAY_WIDTH || y < 0 || y >= LINES_PER_SCREEN * LINE_HEIGHT) {
+      throw new Error(`Text region at ${x},${y} is outside the ${DISPLAY_WIDTH}x${LINES_PER_SCREEN * LINE_HEIGHT} text area`);
+    }
+
+    const width = Math.min(region.width ?? DISPLAY_WIDTH - x, DISPLAY_WIDTH - x);
+    const firstRow = Math.floor(y / LINE_HEIGHT);
+    const rowCount = region.height !== undefined ? Math.max(1, Math.floor(region.height / LINE_HEIGHT)) : LINES_PER_SCREEN;
+    const lines = layoutText(region.text, { ...options, maxWidth: Math.max(width, WIDE_ADVANCE) })
+      .slice(0, Math.min(rowCount, LINES_PER_SCREEN - firstRow));
+
+    lines.forEach((line, index) => {
+      const row = rows[firstRow + index];
+      const lineWidth = measure(line);
+      const offset = align === 'center' ? (width - lineWidth) / 2 : align === 'right' ? width - lineWidth : 0;
+      const start = x + Math.max(offset, 0);
+
+      if (row.text !== '' && start < row.width) {
+        throw new Error(`Text regions overlap on row ${firstRow + index + 1} at x=${Math.round(start)}`);
+      }
+      let spaces = Math.max(Math.round((start - row.width) / SPACE_ADVANCE), row.text !== '' ? 1 : 0);
+      if (spaces > 0 && row.width + spaces * SPACE_ADVANCE + lineWidth > DISPLAY_WIDTH) {
+        spaces--; // Rounded up past the right edge
+      }
+      row.text += ' '.repeat(spaces) + line;
+      row.width += spaces * SPACE_ADVANCE + lineWidth;
+    });
+  }
+
+  const lines = rows.map(row => row.text);
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
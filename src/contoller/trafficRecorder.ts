@@ -0,0 +1,160 @@
+// Protocol traffic recorder.
+// When enabled, every frame written to or received from an arm is kept with its
+// timestamp, arm and decoded meaning in a fixed-size ring buffer. toJsonl() turns
+// the buffer into one JSON object per line, ready to attach to a bug report.
+
+import { decodeCommand, decodeInbound, G1Command, G1CommandName, G1InboundMessage } from './codec';
+import { decodeDeviceEvent, describeDeviceEvent } from './deviceEvents';
+import { COMMANDS, repliedCommand, RESPONSE } from './protocol';
+import { ArmSide } from './transport';
+
+export type TrafficDirection = 'tx' | 'rx';
+
+export interface TrafficRecord {
+  index: number; // Increases by one per recorded frame, also across clear()
+  timestamp: number; // ms since epoch
+  direction: TrafficDirection;
+  side: ArmSide;
+  command: number; // First byte, or the command a reply answers
+  frame: Uint8Array;
+  meaning: string;
+}
+
+export interface TrafficFilter {
+  command?: number;
+  side?: ArmSide;
+  direction?: TrafficDirection;
+}
+
+export class TrafficRecorder {
+  enabled: boolean;
+  private readonly capacity: number;
+  private buffer: TrafficRecord[] = [];
+  private nextIndex = 0;
+
+  constructor(capacity: number = 2000, enabled: boolean = false) {
+    this.capacity = capacity;
+    this.enabled = enabled;
+  }
+
+  record(direction: TrafficDirection, side: ArmSide, frame: Uint8Array): void {
+    if (!this.enabled || frame.length === 0) return;
+
+    this.buffer.push({
+      index: this.nextIndex++,
+      timestamp: Date.now(),
+      direction,
+      side,
+      command: direction === 'rx' ? repliedCommand(frame) : frame[0],
+      frame: frame.slice(),
+      meaning: describeFrame(direction, side, frame)
+    });
+
+    if (this.buffer.length > this.capacity) {
+      this.buffer.splice(0, this.buffer.length - this.capacity);
+    }
+  }
+
+  // Oldest first
+  records(filter: TrafficFilter = {}): TrafficRecord[] {
+    return this.buffer.filter(record =>
+      (filter.command === undefined || record.command === filter.command) &&
+      (filter.side === undefined || record.side === filter.side) &&
+      (filter.direction === undefined || record.direction === filter.direction)
+    );
+  }
+
+  // Index of the newest record, -1 before anything was recorded; lets viewers poll cheaply
+  get lastIndex(): number {
+    return this.nextIndex - 1;
+  }
+
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+
+  toJsonl(filter: TrafficFilter = {}): string {
+    return this.records(filter)
+      .map(record => JSON.stringify({
+        index: record.index,
+        time: new Date(record.timestamp).toISOString(),
+        direction: record.direction,
+        side: record.side,
+        command: `0x${hexByte(record.command)}`,
+        meaning: record.meaning,
+        hex: toHex(record.frame, '')
+      }))
+      .join('\n');
+  }
+}
+
+// "4e 01 02 ..."
+export function toHex(frame: Uint8Array, separator: string = ' '): string {
+  return Array.from(frame).map(hexByte).join(separator);
+}
+
+// Name of the COMMANDS entry for a command byte, or its hex value
+export function commandLabel(command: number): string {
+  const names = (Object.keys(COMMANDS) as G1CommandName[]).filter((name) => {
+    const value = COMMANDS[name];
+    return (typeof value === 'number' ? value : value[0]) === command;
+  });
+  return names.length > 0 ? names.join('/') : `0x${hexByte(command)}`;
+}
+
+export function describeFrame(direction: TrafficDirection, side: ArmSide, frame: Uint8Array): string {
+  try {
+    if (direction === 'tx') {
+      return describeMessage(decodeCommand(frame));
+    }
+
+    const event = decodeDeviceEvent(frame, side);
+    if (event) {
+      return `Device event: ${describeDeviceEvent(event)}`;
+    }
+
+    const report = decodeInbound(frame);
+    if (report) {
+      return describeMessage(report);
+    }
+
+    const status = REPLY_STATUS[frame[1]];
+    if (status) {
+      return `${commandLabel(frame[0])} ${status}`;
+    }
+  } catch (error) {
+    return `Malformed ${commandLabel(frame[0])}: ${error instanceof Error ? error.message : error}`;
+  }
+
+  return `Unrecognized ${commandLabel(frame[0])}`;
+}
+
+const REPLY_STATUS: { [status: number]: string } = {
+  [RESPONSE.SUCCESS]: 'ok',
+  [RESPONSE.FAILURE]: 'failed',
+  [RESPONSE.CONTINUE]: 'continue',
+};
+
+// "SEND_TEXT sequence=3 totalPackets=1 ... data=[42 bytes]"
+function describeMessage(message: G1Command | G1InboundMessage): string {
+  const { command, ...fields } = message;
+  const parts = Object.entries(fields).map(([key, value]) => `${key}=${describeValue(value)}`);
+  return [command, ...parts].join(' ');
+}
+
+function describeValue(value: unknown): string {
+  if (value instanceof Uint8Array) return `[${value.length} bytes]`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, inner]) => `${key}=${describeValue(inner)}`).join(' ')}}`;
+  }
+  return String(value);
+}
+
+function hexByte(value: number): string {
+  return value.toString(16).padStart(2, '0');
+}
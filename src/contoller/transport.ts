@@ -0,0 +1,61 @@
+// Transport abstraction used by EvenRealitiesG1Manager.
+// The manager only ever talks to these interfaces, so it can run on top of
+// react-native-ble-plx (see bleTransport.ts) or the in-memory simulator.
+
+// Same values as the react-native-ble-plx State enum
+export type TransportState =
+  | 'Unknown'
+  | 'Resetting'
+  | 'Unsupported'
+  | 'Unauthorized'
+  | 'PoweredOff'
+  | 'PoweredOn';
+
+export type ArmSide = 'left' | 'right';
+
+export interface ScannedDevice {
+  id: string;
+  name: string | null;
+  rssi: number | null;
+}
+
+export interface TransportSubscription {
+  remove(): void;
+}
+
+// A connected arm
+export interface G1Link {
+  readonly id: string;
+  readonly name: string | null;
+
+  // Resolves the Nordic UART service, throws if the arm does not expose it
+  discoverUart(): Promise<void>;
+
+  // Asks for a larger ATT MTU and resolves with the one actually in effect
+  requestMtu(mtu: number): Promise<number>;
+
+  // Signal strength of the connection in dBm, or null when the link cannot tell
+  readRssi(): Promise<number | null>;
+
+  // Writes a raw frame to the UART TX characteristic
+  write(data: Uint8Array): Promise<void>;
+
+  // Subscribes to frames from the UART RX characteristic
+  monitor(onData: (data: Uint8Array) => void, onError: (error: Error) => void): TransportSubscription;
+
+  // Fires when the arm drops the connection; error is null for a clean disconnect
+  onDisconnected(listener: (error: Error | null) => void): TransportSubscription;
+
+  disconnect(): Promise<void>;
+}
+
+export interface G1Transport {
+  state(): Promise<TransportState>;
+  onStateChange(listener: (state: TransportState) => void): TransportSubscription;
+
+  startScan(onDevice: (device: ScannedDevice) => void, onError: (error: Error) => void): void;
+  stopScan(): void;
+
+  // timeoutMs bounds the attempt so an out-of-range arm fails instead of hanging
+  connect(deviceId: string, timeoutMs?: number): Promise<G1Link>;
+}